@@ -4,42 +4,34 @@ pragma solidity 0.8.18;
 // solhint-disable max-line-length
 import { IUniswapV3MintCallback } from "@uniswap/v3-core/contracts/interfaces/callback/IUniswapV3MintCallback.sol";
 import { IUniswapV3SwapCallback } from "@uniswap/v3-core/contracts/interfaces/callback/IUniswapV3SwapCallback.sol";
-import { GrizzlyVaultStorage } from "./abstract/GrizzlyVaultStorage.sol";
-import { TickMath } from "./uniswap/TickMath.sol";
+import { GrizzlyVaultBase } from "./abstract/GrizzlyVaultBase.sol";
 import { IERC20, SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { IERC20Permit } from "@openzeppelin/contracts/token/ERC20/extensions/draft-IERC20Permit.sol";
 import { IERC20Metadata } from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import { SafeCast } from "@openzeppelin/contracts/utils/math/SafeCast.sol";
-import { prbSqrt } from "@prb/math/src/Common.sol";
-import { FullMath, LiquidityAmounts } from "./uniswap/LiquidityAmounts.sol";
+import { FullMath } from "./uniswap/FullMath.sol";
 
-contract GrizzlyVault is IUniswapV3MintCallback, IUniswapV3SwapCallback, GrizzlyVaultStorage {
+contract GrizzlyVault is IUniswapV3MintCallback, IUniswapV3SwapCallback, GrizzlyVaultBase {
 	using SafeERC20 for IERC20;
-	using TickMath for int24;
 
-	event Minted(
-		address receiver,
-		uint256 mintAmount,
-		uint256 amount0In,
-		uint256 amount1In,
-		uint128 liquidityMinted
-	);
-
-	event Burned(
-		address receiver,
-		uint256 burnAmount,
-		uint256 amount0Out,
-		uint256 amount1Out,
-		uint128 liquidityBurned
-	);
-
-	event Rebalance(
-		int24 lowerTick_,
-		int24 upperTick_,
-		uint128 liquidityBefore,
-		uint128 liquidityAfter
-	);
+	/// @notice GrizzlyVaultExtension implementing the position management and keeper functions
+	address public immutable extension;
+	/// @notice GrizzlyVaultSettings implementing the manager configuration, guardian and fee
+	/// withdrawal functions
+	address public immutable settings;
+	/// @notice GrizzlyVaultViews implementing the preview and view functions
+	address public immutable views;
+
+	modifier checkDeadline(uint256 deadline) {
+		_checkDeadline(deadline);
+		_;
+	}
 
-	event FeesEarned(uint256 feesEarned0, uint256 feesEarned1);
+	constructor(address _extension, address _settings, address _views) {
+		extension = _extension;
+		settings = _settings;
+		views = _views;
+	}
 
 	// --- UniV3 callback functions --- //
 
@@ -49,19 +41,28 @@ contract GrizzlyVault is IUniswapV3MintCallback, IUniswapV3SwapCallback, Grizzly
 		uint256 amount1Owed,
 		bytes calldata /*_data*/
 	) external override {
-		require(msg.sender == address(pool), "callback caller");
+		_checkCallbackCaller();
 
-		if (amount0Owed > 0) token0.safeTransfer(msg.sender, amount0Owed);
-		if (amount1Owed > 0) token1.safeTransfer(msg.sender, amount1Owed);
+		_transferAmounts(amount0Owed, amount1Owed, msg.sender);
 	}
 
 	/// @notice Uniswap v3 callback function, called back on pool.swap
+	/// @dev Preview swaps are reverted with the swap amounts, see PoolActions.previewSwap
 	function uniswapV3SwapCallback(
 		int256 amount0Delta,
 		int256 amount1Delta,
-		bytes calldata /*data*/
+		bytes calldata data
 	) external override {
-		require(msg.sender == address(pool), "callback caller");
+		_checkCallbackCaller();
+
+		if (abi.decode(data, (bool))) {
+			assembly {
+				let ptr := mload(0x40)
+				mstore(ptr, amount0Delta)
+				mstore(add(ptr, 0x20), amount1Delta)
+				revert(ptr, 0x40)
+			}
+		}
 
 		if (amount0Delta > 0) token0.safeTransfer(msg.sender, uint256(amount0Delta));
 		if (amount1Delta > 0) token1.safeTransfer(msg.sender, uint256(amount1Delta));
@@ -76,52 +77,89 @@ contract GrizzlyVault is IUniswapV3MintCallback, IUniswapV3SwapCallback, Grizzly
 	/// @return amount0 Amount of token0 transferred from msg.sender to mint `mintAmount`
 	/// @return amount1 Amount of token1 transferred from msg.sender to mint `mintAmount`
 	/// @return liquidityMinted Amount of liquidity added to the underlying Uniswap V3 position
-	// solhint-disable-next-line function-max-lines, code-complexity
 	function mint(
 		uint256 mintAmount,
 		address receiver
-	) external nonReentrant returns (uint256 amount0, uint256 amount1, uint128 liquidityMinted) {
-		require(mintAmount > 0, "mint 0");
-
-		uint256 totalSupply = totalSupply();
-
-		Ticks memory ticks = baseTicks;
-		(uint160 sqrtRatioX96, , , , , , ) = pool.slot0();
-
-		if (totalSupply > 0) {
-			(uint256 amount0Current, uint256 amount1Current) = getUnderlyingBalances();
+	)
+		external
+		nonReentrant
+		whenNotPaused
+		returns (uint256 amount0, uint256 amount1, uint128 liquidityMinted)
+	{
+		return _mintShares(mintAmount, receiver);
+	}
 
-			amount0 = FullMath.mulDivRoundingUp(amount0Current, mintAmount, totalSupply);
-			amount1 = FullMath.mulDivRoundingUp(amount1Current, mintAmount, totalSupply);
-		} else {
-			// Prevent first staker from stealing funds of subsequent stakers
-			// solhint-disable-next-line max-line-length
-			// https://code4rena.com/reports/2022-01-sherlock/#h-01-first-user-can-steal-everyone-elses-tokens
-			require(mintAmount > MIN_INITIAL_SHARES, "min shares");
+	/// @notice Deposit at most `amount0Max` and `amount1Max` to mint the maximum number of
+	/// Grizzly Vault tokens, protecting the caller against price moves before execution
+	/// @dev Shares are computed at execution time as in getMintAmounts and only the amounts
+	/// needed to mint them are transferred from msg.sender
+	/// @param amount0Max The maximum amount of token0 to transfer from msg.sender
+	/// @param amount1Max The maximum amount of token1 to transfer from msg.sender
+	/// @param minShares The minimum number of Grizzly Vault tokens to mint in order to not revert
+	/// @param receiver The account to receive the minted tokens
+	/// @param deadline Timestamp after which the deposit is no longer valid
+	/// @return amount0 Amount of token0 transferred from msg.sender
+	/// @return amount1 Amount of token1 transferred from msg.sender
+	/// @return mintAmount Number of Grizzly Vault tokens minted to receiver
+	/// @return liquidityMinted Amount of liquidity added to the underlying Uniswap V3 position
+	function deposit(
+		uint256 amount0Max,
+		uint256 amount1Max,
+		uint256 minShares,
+		address receiver,
+		uint256 deadline
+	)
+		external
+		nonReentrant
+		whenNotPaused
+		checkDeadline(deadline)
+		returns (uint256 amount0, uint256 amount1, uint256 mintAmount, uint128 liquidityMinted)
+	{
+		_accrueManagementFee();
 
-			// If supply is 0 mintAmount == liquidity to deposit
-			(amount0, amount1) = _amountsForLiquidity(
-				SafeCast.toUint128(mintAmount),
-				ticks,
-				sqrtRatioX96
-			);
-		}
+		(, , mintAmount) = this.getMintAmounts(amount0Max, amount1Max);
+		require(mintAmount >= minShares, "shares below min");
 
-		// Transfer amounts owed to contract
-		if (amount0 > 0) {
-			token0.safeTransferFrom(msg.sender, address(this), amount0);
-		}
-		if (amount1 > 0) {
-			token1.safeTransferFrom(msg.sender, address(this), amount1);
-		}
+		(amount0, amount1, liquidityMinted) = _mintShares(mintAmount, receiver);
+		require(amount0 <= amount0Max && amount1 <= amount1Max, "amounts above max");
+	}
 
-		// Deposit as much new liquidity as possible
-		liquidityMinted = _liquidityForAmounts(ticks, sqrtRatioX96, amount0, amount1);
+	/// @notice Mint Grizzly Vault tokens depositing only one of the underlying tokens
+	/// @dev Implemented in GrizzlyVaultExtension
+	function mintWithToken(
+		uint8,
+		uint256,
+		uint256,
+		address
+	) external returns (uint256, uint256, uint256, uint128) {
+		_delegate(extension);
+	}
 
-		pool.mint(address(this), ticks.lowerTick, ticks.upperTick, liquidityMinted, "");
+	/// @notice Same as mint, using permit signatures to approve token0 and token1 to the vault
+	/// @dev Permits are skipped if they fail, e.g. a token without EIP-2612 support or a
+	/// front-run signature, so existing allowances can still be used
+	/// @param mintAmount The number of Grizzly Vault tokens to mint
+	/// @param receiver The account to receive the minted tokens
+	/// @param permit0 EIP-2612 signature of msg.sender approving token0 to the vault
+	/// @param permit1 EIP-2612 signature of msg.sender approving token1 to the vault
+	/// @return amount0 Amount of token0 transferred from msg.sender to mint `mintAmount`
+	/// @return amount1 Amount of token1 transferred from msg.sender to mint `mintAmount`
+	/// @return liquidityMinted Amount of liquidity added to the underlying Uniswap V3 position
+	function mintWithPermit(
+		uint256 mintAmount,
+		address receiver,
+		PermitSignature calldata permit0,
+		PermitSignature calldata permit1
+	)
+		external
+		nonReentrant
+		whenNotPaused
+		returns (uint256 amount0, uint256 amount1, uint128 liquidityMinted)
+	{
+		_permit(token0, permit0);
+		_permit(token1, permit1);
 
-		_mint(receiver, mintAmount);
-		emit Minted(receiver, mintAmount, amount0, amount1, liquidityMinted);
+		return _mintShares(mintAmount, receiver);
 	}
 
 	/// @notice Burn Grizzly Vault tokens (fractional shares of a UniV3 position) and receive tokens
@@ -133,198 +171,362 @@ contract GrizzlyVault is IUniswapV3MintCallback, IUniswapV3SwapCallback, Grizzly
 	/// @return amount0 Amount of token0 transferred to receiver for burning `burnAmount`
 	/// @return amount1 Amount of token1 transferred to receiver for burning `burnAmount`
 	/// @return liquidityBurned Amount of liquidity removed from the underlying Uniswap V3 position
-	// solhint-disable-next-line function-max-lines
 	function burn(
 		uint256 burnAmount,
 		uint256 maxSwapSlippage,
 		uint8 outputToken,
 		address receiver
 	) external nonReentrant returns (uint256 amount0, uint256 amount1, uint128 liquidityBurned) {
-		require(burnAmount > 0, "burn 0");
-		require(maxSwapSlippage < basisOne, "max slippage too high");
+		return _burnSharesTo(msg.sender, burnAmount, maxSwapSlippage, outputToken, receiver);
+	}
 
-		LocalVariablesBurn memory vars;
+	/// @notice Burn Grizzly Vault tokens and receive at least `minAmount0` and `minAmount1`
+	/// @dev Same as burn, minimum amounts are checked after the zap out swap (if any)
+	/// @param burnAmount The number of Grizzly Vault tokens to burn
+	/// @param maxSwapSlippage The maximum slippage authorized by user
+	/// @param outputToken  If 0 zaps out with only token0, if 1 zaps out with only token 1,
+	/// if everything else it zaps out with both tokens
+	/// @param minAmount0 The minimum amount of token0 to receive in order to not revert
+	/// @param minAmount1 The minimum amount of token1 to receive in order to not revert
+	/// @param receiver The account to receive the underlying amounts of token0 and token1
+	/// @param deadline Timestamp after which the burn is no longer valid
+	/// @return amount0 Amount of token0 transferred to receiver for burning `burnAmount`
+	/// @return amount1 Amount of token1 transferred to receiver for burning `burnAmount`
+	/// @return liquidityBurned Amount of liquidity removed from the underlying Uniswap V3 position
+	function burnWithMinAmounts(
+		uint256 burnAmount,
+		uint256 maxSwapSlippage,
+		uint8 outputToken,
+		uint256 minAmount0,
+		uint256 minAmount1,
+		address receiver,
+		uint256 deadline
+	)
+		external
+		nonReentrant
+		checkDeadline(deadline)
+		returns (uint256 amount0, uint256 amount1, uint128 liquidityBurned)
+	{
+		(amount0, amount1, liquidityBurned) = _burnSharesTo(
+			msg.sender,
+			burnAmount,
+			maxSwapSlippage,
+			outputToken,
+			receiver
+		);
+		require(amount0 >= minAmount0 && amount1 >= minAmount1, "amounts below min");
+	}
 
-		vars.totalSupply = totalSupply();
+	/// @notice Burn Grizzly Vault tokens of `owner` approved to msg.sender with a permit signature
+	/// @dev Lets routers exit on behalf of `owner` in a single transaction. The permit is only
+	/// used if the allowance of msg.sender is not enough to burn `burnAmount`
+	/// @param owner The account whose Grizzly Vault tokens are burned
+	/// @param burnAmount The number of Grizzly Vault tokens to burn
+	/// @param maxSwapSlippage The maximum slippage authorized by user
+	/// @param outputToken  If 0 zaps out with only token0, if 1 zaps out with only token 1,
+	/// if everything else it zaps out with both tokens
+	/// @param receiver The account to receive the underlying amounts of token0 and token1
+	/// @param sharesPermit EIP-2612 signature of `owner` approving the vault tokens to msg.sender
+	/// @return amount0 Amount of token0 transferred to receiver for burning `burnAmount`
+	/// @return amount1 Amount of token1 transferred to receiver for burning `burnAmount`
+	/// @return liquidityBurned Amount of liquidity removed from the underlying Uniswap V3 position
+	function burnWithPermit(
+		address owner,
+		uint256 burnAmount,
+		uint256 maxSwapSlippage,
+		uint8 outputToken,
+		address receiver,
+		PermitSignature calldata sharesPermit
+	) external nonReentrant returns (uint256 amount0, uint256 amount1, uint128 liquidityBurned) {
+		if (allowance(owner, msg.sender) < burnAmount) {
+			permit(
+				owner,
+				msg.sender,
+				sharesPermit.value,
+				sharesPermit.deadline,
+				sharesPermit.v,
+				sharesPermit.r,
+				sharesPermit.s
+			);
+		}
+		_spendAllowance(owner, msg.sender, burnAmount);
 
-		Ticks memory ticks = baseTicks;
+		return _burnSharesTo(owner, burnAmount, maxSwapSlippage, outputToken, receiver);
+	}
 
-		(uint128 liquidity, , , , ) = pool.positions(_getPositionID(ticks));
+	/// @notice Burn the Grizzly Vault tokens needed to withdraw `amount0Out` and `amount1Out`
+	/// @dev Shares are computed with the same pro-rata math as burn, on the requested amounts
+	/// plus a few wei of rounding margin. As burns are pro-rata, receiver may get more than
+	/// requested of one of the tokens, but never less
+	/// @param amount0Out The amount of token0 to withdraw
+	/// @param amount1Out The amount of token1 to withdraw
+	/// @param maxShares The maximum number of Grizzly Vault tokens to burn in order to not revert
+	/// @param receiver The account to receive the underlying amounts of token0 and token1
+	/// @return burnAmount Number of Grizzly Vault tokens burned from msg.sender
+	/// @return amount0 Amount of token0 transferred to receiver
+	/// @return amount1 Amount of token1 transferred to receiver
+	function withdrawExact(
+		uint256 amount0Out,
+		uint256 amount1Out,
+		uint256 maxShares,
+		address receiver
+	) external nonReentrant returns (uint256 burnAmount, uint256 amount0, uint256 amount1) {
+		_accrueManagementFee();
 
-		_burn(msg.sender, burnAmount);
+		uint256 totalSupply = totalSupply();
+		(uint256 amount0Current, uint256 amount1Current) = getUnderlyingBalances();
 
-		vars.liquidityBurnt = FullMath.mulDiv(burnAmount, liquidity, vars.totalSupply);
+		require(
+			(amount0Out == 0 || amount0Current > 0) && (amount1Out == 0 || amount1Current > 0),
+			"no balance to withdraw"
+		);
 
-		liquidityBurned = SafeCast.toUint128(vars.liquidityBurnt);
+		// Burns round down the liquidity, pool and idle amounts, each by at most a wei
+		if (amount0Out > 0) {
+			burnAmount = FullMath.mulDivRoundingUp(amount0Out + 10, totalSupply, amount0Current);
+		}
+		if (amount1Out > 0) {
+			uint256 burnAmount1 = FullMath.mulDivRoundingUp(
+				amount1Out + 10,
+				totalSupply,
+				amount1Current
+			);
+			if (burnAmount1 > burnAmount) burnAmount = burnAmount1;
+		}
+		require(burnAmount <= maxShares, "shares above max");
 
-		(uint256 burn0, uint256 burn1, uint256 fee0, uint256 fee1) = _withdraw(
-			ticks,
-			liquidityBurned
-		);
+		(amount0, amount1, ) = _burnSharesTo(msg.sender, burnAmount, 0, 2, receiver);
+		require(amount0 >= amount0Out && amount1 >= amount1Out, "amounts below requested");
+	}
 
-		(fee0, fee1) = _applyFees(fee0, fee1);
+	/// @notice Withdraw protocol fees accrued to the protocolTreasury of the factory
+	/// @dev Implemented in GrizzlyVaultSettings
+	function withdrawProtocolBalance() external {
+		_delegate(settings);
+	}
 
-		amount0 =
-			burn0 +
-			FullMath.mulDiv(
-				token0.balanceOf(address(this)) - burn0 - managerBalance0,
-				burnAmount,
-				vars.totalSupply
-			);
+	// --- External manager functions --- // Called by Pool Manager
 
-		amount1 =
-			burn1 +
-			FullMath.mulDiv(
-				token1.balanceOf(address(this)) - burn1 - managerBalance1,
-				burnAmount,
-				vars.totalSupply
-			);
+	/// @notice Change the range of underlying UniswapV3 position, only manager and strategists can call
+	/// @dev Implemented in GrizzlyVaultExtension
+	function executiveRebalance(int24, int24, uint128) external {
+		_delegate(extension);
+	}
 
-		// ZapOut logic Note test properly amounts
-		if (outputToken == 0) {
-			(vars.amount0Delta, vars.amount1Delta) = _swap(amount1, false, maxSwapSlippage);
-			amount0 = uint256(SafeCast.toInt256(amount0) - vars.amount0Delta);
-			amount1 = uint256(SafeCast.toInt256(amount1) - vars.amount1Delta);
-		} else if (outputToken == 1) {
-			(vars.amount0Delta, vars.amount1Delta) = _swap(amount0, true, maxSwapSlippage);
-			amount0 = uint256(SafeCast.toInt256(amount0) - vars.amount0Delta);
-			amount1 = uint256(SafeCast.toInt256(amount1) - vars.amount1Delta);
-		}
+	/// @notice Same as executiveRebalance with a swap computed off-chain, only manager and
+	/// strategists can call
+	/// @dev Implemented in GrizzlyVaultExtension
+	function executiveRebalance(int24, int24, uint128, uint256, bool, uint160) external {
+		_delegate(extension);
+	}
 
-		_transferAmounts(amount0, amount1, receiver);
+	/// @notice Set the width of the limit position, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setLimitWidth(int24) external {
+		_delegate(settings);
+	}
 
-		emit Burned(receiver, burnAmount, amount0, amount1, liquidityBurned);
+	/// @notice setManagerFee sets a managerFee, increases are applied after a notice period,
+	/// only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setManagerFee(uint24) external {
+		_delegate(settings);
 	}
 
-	// --- External manager functions --- // Called by Pool Manager
+	/// @notice Apply the queued manager fee increase after its notice period, anyone can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function applyManagerFee() external {
+		_delegate(settings);
+	}
 
-	/// @notice Change the range of underlying UniswapV3 position, only manager can call
-	/// @dev When changing the range the inventory of token0 and token1 may be rebalanced
-	/// with a swap to deposit as much liquidity as possible into the new position.
-	/// Swap a proportion of this leftover to deposit more liquidity into the position,
-	/// since any leftover will be unused and sit idle until the next rebalance
-	/// @param newLowerTick The new lower bound of the position's range
-	/// @param newUpperTick The new upper bound of the position's range
-	/// @param minLiquidity Minimum liquidity of the new position in order to not revert
-	// solhint-disable-next-line function-max-lines
-	function executiveRebalance(
-		int24 newLowerTick,
-		int24 newUpperTick,
-		uint128 minLiquidity
-	) external onlyManager {
-		//validate new ticks
-		require(
-			_validateTickSpacing(address(pool), newLowerTick, newUpperTick),
-			"tickSpacing mismatch"
-		);
+	/// @notice Set the annualised management fee minted to managerTreasury, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setManagementFee(uint24) external {
+		_delegate(settings);
+	}
 
-		// First check pool health
-		_checkPriceSlippage();
+	/// @notice Change configurable parameters, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function updateConfigParams(uint24, uint32, address) external {
+		_delegate(settings);
+	}
 
-		uint128 liquidity;
-		uint128 newLiquidity;
+	/// @notice Set the maximum deviation of the pool price from the TWAP on user mints and burns,
+	/// only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setUserOracleSlippage(uint24) external {
+		_delegate(settings);
+	}
 
-		Ticks memory ticks = baseTicks;
-		Ticks memory newTicks = Ticks(newLowerTick, newUpperTick);
+	/// @notice Set the external price feeds of the oracle check, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setPriceFeeds(address, address, uint32) external {
+		_delegate(settings);
+	}
+
+	/// @notice Set the keeper allowed to rebalance, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setKeeperAddress(address) external {
+		_delegate(settings);
+	}
 
-		if (totalSupply() > 0) {
-			(liquidity, , , , ) = pool.positions(_getPositionID(ticks));
-			if (liquidity > 0) {
-				(, , uint256 fee0, uint256 fee1) = _withdraw(ticks, liquidity);
+	/// @notice Set the maximum slippage of user and rebalance swaps, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setManagerParams(uint24, uint24) external {
+		_delegate(settings);
+	}
 
-				(fee0, fee1) = _applyFees(fee0, fee1);
-			}
+	/// @notice Queue a configuration change, executable after configDelay, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function queueConfig(bytes calldata) external {
+		_delegate(settings);
+	}
 
-			// Update storage ticks
-			baseTicks = newTicks;
+	/// @notice Cancel a queued configuration change, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function cancelConfig(bytes32) external {
+		_delegate(settings);
+	}
 
-			uint256 reinvest0 = token0.balanceOf(address(this)) - managerBalance0;
-			uint256 reinvest1 = token1.balanceOf(address(this)) - managerBalance1;
+	/// @notice Set the delay of configuration changes, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setConfigDelay(uint32) external {
+		_delegate(settings);
+	}
 
-			(uint256 finalAmount0, uint256 finalAmount1) = _balanceAmounts(
-				newTicks,
-				reinvest0,
-				reinvest1
-			);
+	/// @notice Grant a role to an account, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function grantRole(bytes32, address) external {
+		_delegate(settings);
+	}
 
-			_addLiquidity(newTicks, finalAmount0, finalAmount1);
+	/// @notice Revoke a role from an account, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function revokeRole(bytes32, address) external {
+		_delegate(settings);
+	}
 
-			(newLiquidity, , , , ) = pool.positions(_getPositionID(newTicks));
+	/// @notice Set the range allowed to strategist executive rebalances, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setStrategistTickRange(int24) external {
+		_delegate(settings);
+	}
 
-			require(newLiquidity > minLiquidity, "min liquidity");
-		} else {
-			// Update storage ticks
-			baseTicks = newTicks;
-		}
+	/// @notice Set the bounty paid to rebalance callers, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setKeeperBounty(uint24, uint32) external {
+		_delegate(settings);
+	}
 
-		emit Rebalance(newLowerTick, newUpperTick, liquidity, newLiquidity);
+	/// @notice Set the recenter strategy applied by keepers, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setRecenterParams(int24, int24, uint32) external {
+		_delegate(settings);
 	}
 
-	// --- External authorized functions --- //  Can be automated
+	/// @notice Set the price the swap limits are derived from, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setSwapAnchor(SwapAnchor) external {
+		_delegate(settings);
+	}
 
-	/// @notice Reinvest fees earned into underlying position, only authorized executors can call
-	/// @dev As the ticks do not change, liquidity must increase, otherwise will revert
-	/// Position bounds CANNOT be altered, only manager may via executiveRebalance
-	function rebalance() external onlyAuthorized {
-		// First check pool health
-		_checkPriceSlippage();
+	/// @notice Set the strategy consulted by keepers on strategy rebalances, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setStrategy(address) external {
+		_delegate(settings);
+	}
 
-		Ticks memory ticks = baseTicks;
+	/// @notice Set when anyone can compound the fees earned, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setCompoundParams(uint32, uint256, uint256) external {
+		_delegate(settings);
+	}
 
-		// In rebalance ticks remain the same
-		bytes32 key = _getPositionID(ticks);
+	/// @notice Set the maximum deviation of the share value from its reference before the circuit
+	/// breaker trips, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setShareValueDeviation(uint24) external {
+		_delegate(settings);
+	}
 
-		(uint128 liquidity, , , , ) = pool.positions(key);
+	/// @notice Reset a tripped circuit breaker, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function resetCircuitBreaker() external {
+		_delegate(settings);
+	}
 
-		_rebalance(liquidity, ticks);
+	/// @notice Set the guardian allowed to pause and wind down the vault, only manager can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setGuardian(address) external {
+		_delegate(settings);
+	}
 
-		(uint128 newLiquidity, , , , ) = pool.positions(key);
-		require(newLiquidity > liquidity, "liquidity must increase");
+	// --- External guardian functions --- // Called by Pool Manager or Guardian
 
-		emit Rebalance(ticks.lowerTick, ticks.upperTick, liquidity, newLiquidity);
+	/// @notice Pause or unpause mints and zap ins, only manager or guardian can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function setPaused(bool) external {
+		_delegate(settings);
 	}
 
-	/// @notice Withdraw manager fees accrued, only authorized executors can call
-	/// Target account to receive fees is managerTreasury, alterable by only manager
-	function withdrawManagerBalance() external onlyAuthorized {
-		uint256 amount0 = managerBalance0;
-		uint256 amount1 = managerBalance1;
+	/// @notice Withdraw the whole position into idle balances and pause mints for good,
+	/// only manager or guardian can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function emergencyWindDown() external {
+		_delegate(settings);
+	}
 
-		managerBalance0 = 0;
-		managerBalance1 = 0;
+	// --- External authorized functions --- //  Can be automated
 
-		_transferAmounts(amount0, amount1, managerTreasury);
+	/// @notice Reinvest fees earned into underlying position, only authorized executors can call
+	/// @dev Implemented in GrizzlyVaultExtension
+	function rebalance() external {
+		_delegate(extension);
+	}
+
+	/// @notice Reinvest fees earned into underlying position, anyone can call once
+	/// compoundInterval passed since the last rebalance and fees are above the thresholds
+	/// @dev Implemented in GrizzlyVaultExtension
+	function compound() external {
+		_delegate(extension);
+	}
+
+	/// @notice Recenter the position around the TWAP following the manager recenter strategy,
+	/// only authorized executors can call
+	/// @dev Implemented in GrizzlyVaultExtension
+	function recenter() external {
+		_delegate(extension);
+	}
+
+	/// @notice Move the position to the range returned by the strategy set by the manager,
+	/// only authorized executors can call
+	/// @dev Implemented in GrizzlyVaultExtension
+	function strategyRebalance() external {
+		_delegate(extension);
+	}
+
+	/// @notice Trip the circuit breaker if the share value deviates too much from the reference,
+	/// anyone can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function checkCircuitBreaker() external returns (bool) {
+		_delegate(settings);
+	}
+
+	/// @notice Withdraw manager fees accrued, only authorized executors and treasury role can call
+	/// @dev Implemented in GrizzlyVaultSettings
+	function withdrawManagerBalance() external {
+		_delegate(settings);
 	}
 
 	// --- External view functions --- //
 
 	/// @notice Compute max Grizzly Vault tokens that can be minted from `amount0Max` & `amount1Max`
-	/// @param amount0Max The maximum amount of token0 to forward on mint
-	/// @param amount0Max The maximum amount of token1 to forward on mint
-	/// @return amount0 Actual amount of token0 to forward when minting `mintAmount`
-	/// @return amount1 Actual amount of token1 to forward when minting `mintAmount`
-	/// @return mintAmount Maximum number of Grizzly Vault tokens to mint
+	/// @dev Implemented in GrizzlyVaultViews
 	function getMintAmounts(
-		uint256 amount0Max,
-		uint256 amount1Max
+		uint256,
+		uint256
 	) external view returns (uint256 amount0, uint256 amount1, uint256 mintAmount) {
-		uint256 totalSupply = totalSupply();
-
-		if (totalSupply > 0) {
-			(amount0, amount1, mintAmount) = _computeMintAmounts(
-				totalSupply,
-				amount0Max,
-				amount1Max
-			);
-		} else {
-			Ticks memory ticks = baseTicks;
-			(uint160 sqrtRatioX96, , , , , , ) = pool.slot0();
-
-			uint128 newLiquidity = _liquidityForAmounts(ticks, sqrtRatioX96, amount0Max, amount1Max);
-
-			mintAmount = uint256(newLiquidity);
-			(amount0, amount1) = _amountsForLiquidity(newLiquidity, ticks, sqrtRatioX96);
-		}
+		return abi.decode(_delegateView(), (uint256, uint256, uint256));
 	}
 
 	/// @notice Compute total underlying holdings of the Grizzly Vault token supply
@@ -341,356 +543,261 @@ contract GrizzlyVault is IUniswapV3MintCallback, IUniswapV3SwapCallback, Grizzly
 		return _getUnderlyingBalances(sqrtRatioX96, tick);
 	}
 
+	/// @notice Compute total underlying holdings of the Grizzly Vault token supply at a price
+	/// @dev Implemented in GrizzlyVaultViews
 	function getUnderlyingBalancesAtPrice(
-		uint160 sqrtRatioX96
+		uint160
 	) external view returns (uint256 amount0Current, uint256 amount1Current) {
-		(, int24 tick, , , , , ) = pool.slot0();
-		return _getUnderlyingBalances(sqrtRatioX96, tick);
+		return abi.decode(_delegateView(), (uint256, uint256));
 	}
 
+	/// @notice Compute the fees earned by the positions and not collected yet
+	/// @dev Implemented in GrizzlyVaultViews
 	function estimateFees() external view returns (uint256 token0Fee, uint256 token1Fee) {
-		(, int24 currentTick, , , , , ) = pool.slot0();
-
-		Ticks memory ticks = baseTicks;
-
-		(
-			uint128 liquidity,
-			uint256 feeGrowthInside0Last,
-			uint256 feeGrowthInside1Last,
-			uint128 tokensOwed0,
-			uint128 tokensOwed1
-		) = pool.positions(_getPositionID(ticks));
+		return abi.decode(_delegateView(), (uint256, uint256));
+	}
 
-		// Compute current fees earned
-		token0Fee =
-			_computeFeesEarned(true, feeGrowthInside0Last, currentTick, liquidity, ticks) +
-			tokensOwed0;
-		token1Fee =
-			_computeFeesEarned(false, feeGrowthInside1Last, currentTick, liquidity, ticks) +
-			tokensOwed1;
+	/// @notice Compute the amounts of token0 and token1 needed to mint `mintAmount`
+	/// @dev Implemented in GrizzlyVaultViews
+	function previewMint(uint256) external view returns (uint256 amount0, uint256 amount1) {
+		return abi.decode(_delegateView(), (uint256, uint256));
 	}
 
-	// --- Internal core functions --- //
+	/// @notice Whether the pool observations cover the TWAP over oracleSlippageInterval,
+	/// until then the oracle checks revert
+	/// @dev Implemented in GrizzlyVaultViews
+	function isOracleReady() external view returns (bool) {
+		return abi.decode(_delegateView(), (bool));
+	}
 
-	function _rebalance(uint128 liquidity, Ticks memory ticks) internal {
-		(, , uint256 feesEarned0, uint256 feesEarned1) = _withdraw(ticks, liquidity);
+	/// @notice Compute the amounts of token0 and token1 received for burning `burnAmount`,
+	/// must be called statically
+	/// @dev Implemented in GrizzlyVaultViews
+	function previewBurn(uint256, uint8) external returns (uint256, uint256) {
+		_delegate(views);
+	}
 
-		(feesEarned0, feesEarned1) = _applyFees(feesEarned0, feesEarned1);
+	/// @notice Runs a view function of GrizzlyVaultViews on the vault storage, only the vault
+	/// can call, statically through _delegateView
+	/// @param data Call of the view function, its return data is returned as is
+	function delegateView(bytes calldata data) external {
+		require(msg.sender == address(this), "not authorized");
+		_delegate(views, data);
+	}
 
-		uint256 leftover0 = token0.balanceOf(address(this)) - managerBalance0;
-		uint256 leftover1 = token1.balanceOf(address(this)) - managerBalance1;
+	// --- Internal core functions --- //
 
-		// Note if we balance amounts in _rebalance it can underflow
-		// Note check how precise is adding liquidity maintaining the ticks
-		_addLiquidity(ticks, leftover0, leftover1);
-	}
+	// solhint-disable-next-line function-max-lines
+	function _mintShares(
+		uint256 mintAmount,
+		address receiver
+	) internal returns (uint256 amount0, uint256 amount1, uint128 liquidityMinted) {
+		require(mintAmount > 0, "mint 0");
+		_checkUserPriceSlippage();
+		_checkNotTripped();
 
-	function _withdraw(
-		Ticks memory ticks,
-		uint128 liquidity
-	) internal returns (uint256 burn0, uint256 burn1, uint256 fee0, uint256 fee1) {
-		uint256 preBalance0 = token0.balanceOf(address(this));
-		uint256 preBalance1 = token1.balanceOf(address(this));
+		_accrueManagementFee();
 
-		(burn0, burn1) = pool.burn(ticks.lowerTick, ticks.upperTick, liquidity);
+		if (totalSupply() == 0) {
+			// Prevent first staker from stealing funds of subsequent stakers
+			// solhint-disable-next-line max-line-length
+			// https://code4rena.com/reports/2022-01-sherlock/#h-01-first-user-can-steal-everyone-elses-tokens
+			require(mintAmount > MIN_INITIAL_SHARES, "min shares");
+		}
 
-		pool.collect(
-			address(this),
-			ticks.lowerTick,
-			ticks.upperTick,
-			type(uint128).max,
-			type(uint128).max
-		);
+		(amount0, amount1) = _previewMint(mintAmount, totalSupply(), true);
 
-		fee0 = token0.balanceOf(address(this)) - preBalance0 - burn0;
-		fee1 = token1.balanceOf(address(this)) - preBalance1 - burn1;
-	}
+		// Transfer amounts owed to contract
+		if (amount0 > 0) {
+			token0.safeTransferFrom(msg.sender, address(this), amount0);
+		}
+		if (amount1 > 0) {
+			token1.safeTransferFrom(msg.sender, address(this), amount1);
+		}
 
-	function _balanceAmounts(
-		Ticks memory ticks,
-		uint256 amount0Desired,
-		uint256 amount1Desired
-	) internal returns (uint256 finalAmount0, uint256 finalAmount1) {
+		Ticks memory ticks = baseTicks;
 		(uint160 sqrtRatioX96, , , , , , ) = pool.slot0();
 
-		// Get max liquidity for amounts available
-		uint128 liquidity = _liquidityForAmounts(
-			ticks,
-			sqrtRatioX96,
-			amount0Desired,
-			amount1Desired
-		);
-		// Get correct amounts of each token for the liquidity we have
-		(uint256 amount0, uint256 amount1) = _amountsForLiquidity(liquidity, ticks, sqrtRatioX96);
-
-		// Determine the trade direction
-		bool _zeroForOne;
-		if (amount1Desired == 0) {
-			_zeroForOne = true;
-		} else {
-			_zeroForOne = _amountsDirection(amount0Desired, amount1Desired, amount0, amount1);
-		}
+		// Deposit as much new liquidity as possible
+		liquidityMinted = _liquidityForAmounts(ticks, sqrtRatioX96, amount0, amount1);
 
-		// Determine the amount to swap, it is not 100% precise but is a very good approximation
-		uint256 _amountSpecified = _zeroForOne
-			? ((amount0Desired - amount0) * (basisOne + uniPoolFee)) / (2 * basisOne + uniPoolFee)
-			: ((amount1Desired - amount1) * (basisOne + uniPoolFee)) / (2 * basisOne + uniPoolFee);
+		pool.mint(address(this), ticks.lowerTick, ticks.upperTick, liquidityMinted, "");
 
-		if (_amountSpecified > 0) {
-			(int256 amount0Delta, int256 amount1Delta) = _swap(
-				_amountSpecified,
-				_zeroForOne,
-				slippageRebalanceMax
-			);
-			finalAmount0 = uint256(SafeCast.toInt256(amount0Desired) - amount0Delta);
-			finalAmount1 = uint256(SafeCast.toInt256(amount1Desired) - amount1Delta);
-		} else {
-			return (amount0, amount1);
-		}
+		_mint(receiver, mintAmount);
+		emit Minted(receiver, mintAmount, amount0, amount1, liquidityMinted);
 	}
 
-	function _addLiquidity(Ticks memory ticks, uint256 amount0, uint256 amount1) internal {
-		// As we have made a swap in the pool sqrtRatioX96 changes
-		(uint160 sqrtRatioX96, , , , , , ) = pool.slot0();
+	// solhint-disable-next-line function-max-lines
+	function _burnShares(
+		address owner,
+		uint256 burnAmount,
+		uint256 maxSwapSlippage,
+		uint8 outputToken
+	) internal returns (uint256 amount0, uint256 amount1, uint128 liquidityBurned) {
+		require(burnAmount > 0, "burn 0");
+		require(maxSwapSlippage < basisOne, "max slippage too high");
 
-		uint128 liquidityAfterSwap = _liquidityForAmounts(ticks, sqrtRatioX96, amount0, amount1);
+		_accrueManagementFee();
 
-		if (liquidityAfterSwap > 0) {
-			pool.mint(address(this), ticks.lowerTick, ticks.upperTick, liquidityAfterSwap, "");
-		}
-	}
+		LocalVariablesBurn memory vars;
 
-	/// @notice slippageMax variable as argument to differentiate between user and rebalance swaps
-	function _swap(
-		uint256 amountIn,
-		bool zeroForOne,
-		uint256 slippageMax
-	) internal returns (int256, int256) {
-		(uint160 _sqrtPriceX96, , , , , , ) = pool.slot0();
+		vars.totalSupply = totalSupply();
 
-		uint256 _slippageMax = slippageMax == 0 ? slippageUserMax : slippageMax;
-		uint256 _slippageSqrt = zeroForOne
-			? prbSqrt(basisOne - _slippageMax)
-			: prbSqrt(basisOne + _slippageMax);
+		_burn(owner, burnAmount);
 
-		return
-			pool.swap(
-				address(this),
-				zeroForOne, // Swap direction, true: token0 -> token1, false: token1 -> token0
-				SafeCast.toInt256(amountIn),
-				uint160(uint256((_sqrtPriceX96 * _slippageSqrt) / basisOneSqrt)), // sqrtPriceLimitX96
-				abi.encode(0)
-			);
-	}
+		uint256 burn0;
+		uint256 burn1;
+		// After an emergency wind down the position is already withdrawn to idle balances
+		if (!emergency) {
+			_checkUserPriceSlippage();
+			(burn0, burn1, liquidityBurned) = _withdrawShare(burnAmount, vars.totalSupply);
+		}
 
-	function _transferAmounts(uint256 amount0, uint256 amount1, address receiver) internal {
-		if (amount0 > 0) {
-			token0.safeTransfer(receiver, amount0);
+		{
+			(uint256 idle0, uint256 idle1) = _idleBalances();
+			amount0 = burn0 + FullMath.mulDiv(idle0 - burn0, burnAmount, vars.totalSupply);
+			amount1 = burn1 + FullMath.mulDiv(idle1 - burn1, burnAmount, vars.totalSupply);
 		}
 
-		if (amount1 > 0) {
-			token1.safeTransfer(receiver, amount1);
+		// No zap out swap after an emergency wind down
+		if (emergency) return (amount0, amount1, 0);
+
+		// ZapOut logic Note test properly amounts
+		if (outputToken < 2) {
+			// Zapping out with token0 swaps all of token1, and vice versa
+			(vars.amount0Delta, vars.amount1Delta) = outputToken == 0
+				? _swap(amount1, false, maxSwapSlippage)
+				: _swap(amount0, true, maxSwapSlippage);
+			amount0 = uint256(SafeCast.toInt256(amount0) - vars.amount0Delta);
+			amount1 = uint256(SafeCast.toInt256(amount1) - vars.amount1Delta);
 		}
 	}
 
-	function _applyFees(
-		uint256 rawFee0,
-		uint256 rawFee1
-	) internal returns (uint256 fee0, uint256 fee1) {
-		uint256 managerFee0 = (rawFee0 * managerFee) / basisOne;
-		uint256 managerFee1 = (rawFee1 * managerFee) / basisOne;
+	/// @notice Burns `burnAmount` Grizzly Vault tokens of `owner` and transfers the underlying
+	/// amounts to `receiver`, see _burnShares
+	function _burnSharesTo(
+		address owner,
+		uint256 burnAmount,
+		uint256 maxSwapSlippage,
+		uint8 outputToken,
+		address receiver
+	) internal returns (uint256 amount0, uint256 amount1, uint128 liquidityBurned) {
+		(amount0, amount1, liquidityBurned) = _burnShares(
+			owner,
+			burnAmount,
+			maxSwapSlippage,
+			outputToken
+		);
 
-		managerBalance0 += managerFee0;
-		managerBalance1 += managerFee1;
+		_transferAmounts(amount0, amount1, receiver);
 
-		fee0 = rawFee0 - managerFee0;
-		fee1 = rawFee1 - managerFee1;
+		emit Burned(receiver, burnAmount, amount0, amount1, liquidityBurned);
+	}
 
-		emit FeesEarned(fee0, fee1);
+	function _checkDeadline(uint256 deadline) internal view {
+		// solhint-disable-next-line not-rely-on-time
+		require(block.timestamp <= deadline, "expired");
 	}
 
-	// --- Internal view functions --- //
+	/// @notice Approves `token` to the vault with a permit signature of msg.sender, if supported
+	function _permit(IERC20 token, PermitSignature calldata signature) internal {
+		/* solhint-disable no-empty-blocks */
+		try
+			IERC20Permit(address(token)).permit(
+				msg.sender,
+				address(this),
+				signature.value,
+				signature.deadline,
+				signature.v,
+				signature.r,
+				signature.s
+			)
+		{} catch {}
+		/* solhint-enable no-empty-blocks */
+	}
 
-	function _getUnderlyingBalances(
-		uint160 sqrtRatioX96,
-		int24 tick
-	) internal view returns (uint256 amount0Current, uint256 amount1Current) {
+	/// @notice Withdraws the `burnAmount` share of the base and limit positions liquidity
+	function _withdrawShare(
+		uint256 burnAmount,
+		uint256 totalSupply
+	) internal returns (uint256 burn0, uint256 burn1, uint128 liquidityBurned) {
 		Ticks memory ticks = baseTicks;
 
-		(
-			uint128 liquidity,
-			uint256 feeGrowthInside0Last,
-			uint256 feeGrowthInside1Last,
-			uint128 tokensOwed0,
-			uint128 tokensOwed1
-		) = pool.positions(_getPositionID(ticks));
-
-		// Compute current holdings from liquidity
-		(amount0Current, amount1Current) = _amountsForLiquidity(liquidity, ticks, sqrtRatioX96);
-
-		// Compute current fees earned
-		uint256 fee0 = _computeFeesEarned(true, feeGrowthInside0Last, tick, liquidity, ticks) +
-			uint256(tokensOwed0);
-		uint256 fee1 = _computeFeesEarned(false, feeGrowthInside1Last, tick, liquidity, ticks) +
-			uint256(tokensOwed1);
-
-		fee0 = (fee0 * (basisOne - managerFee)) / basisOne;
-		fee1 = (fee1 * (basisOne - managerFee)) / basisOne;
-
-		// Add any leftover in contract to current holdings
-		amount0Current += fee0 + token0.balanceOf(address(this)) - managerBalance0;
-		amount1Current += fee1 + token1.balanceOf(address(this)) - managerBalance1;
-	}
-
-	/// @notice Computes the token0 and token1 value for a given amount of liquidity
-	function _amountsForLiquidity(
-		uint128 liquidity,
-		Ticks memory ticks,
-		uint160 sqrtRatioX96
-	) internal view returns (uint256, uint256) {
-		return
-			LiquidityAmounts.getAmountsForLiquidity(
-				sqrtRatioX96,
-				ticks.lowerTick.getSqrtRatioAtTick(),
-				ticks.upperTick.getSqrtRatioAtTick(),
-				liquidity
-			);
-	}
+		(uint128 liquidity, , , , ) = pool.positions(_getPositionID(ticks));
 
-	/// @notice Gets the liquidity for the available amounts of token0 and token1
-	function _liquidityForAmounts(
-		Ticks memory ticks,
-		uint160 sqrtRatioX96,
-		uint256 amount0,
-		uint256 amount1
-	) internal view returns (uint128) {
-		return
-			LiquidityAmounts.getLiquidityForAmounts(
-				sqrtRatioX96,
-				ticks.lowerTick.getSqrtRatioAtTick(),
-				ticks.upperTick.getSqrtRatioAtTick(),
-				amount0,
-				amount1
-			);
-	}
+		liquidityBurned = SafeCast.toUint128(FullMath.mulDiv(burnAmount, liquidity, totalSupply));
 
-	function _computeMintAmounts(
-		uint256 totalSupply,
-		uint256 amount0Max,
-		uint256 amount1Max
-	) internal view returns (uint256 amount0, uint256 amount1, uint256 mintAmount) {
-		(uint256 amount0Current, uint256 amount1Current) = getUnderlyingBalances();
+		uint256 fee0;
+		uint256 fee1;
+		(burn0, burn1, fee0, fee1) = _withdraw(ticks, liquidityBurned);
 
-		// Compute proportional amount of tokens to mint
-		if (amount0Current == 0 && amount1Current > 0) {
-			mintAmount = FullMath.mulDiv(amount1Max, totalSupply, amount1Current);
-		} else if (amount1Current == 0 && amount0Current > 0) {
-			mintAmount = FullMath.mulDiv(amount0Max, totalSupply, amount0Current);
-		} else if (amount0Current == 0 && amount1Current == 0) {
-			revert("no balances");
-		} else {
-			// Only if both are non-zero
-			uint256 amount0Mint = FullMath.mulDiv(amount0Max, totalSupply, amount0Current);
-			uint256 amount1Mint = FullMath.mulDiv(amount1Max, totalSupply, amount1Current);
-			require(amount0Mint > 0 && amount1Mint > 0, "mint 0");
-
-			mintAmount = amount0Mint < amount1Mint ? amount0Mint : amount1Mint;
-		}
+		_applyFees(fee0, fee1);
 
-		// Compute amounts owed to contract
-		amount0 = FullMath.mulDivRoundingUp(mintAmount, amount0Current, totalSupply);
-		amount1 = FullMath.mulDivRoundingUp(mintAmount, amount1Current, totalSupply);
+		(uint256 limitBurn0, uint256 limitBurn1) = _withdrawLimitShare(burnAmount, totalSupply);
+		burn0 += limitBurn0;
+		burn1 += limitBurn1;
 	}
 
-	// solhint-disable-next-line function-max-lines
-	function _computeFeesEarned(
-		bool isZero,
-		uint256 feeGrowthInsideLast,
-		int24 tick,
-		uint128 liquidity,
-		Ticks memory ticks
-	) internal view returns (uint256 fee) {
-		uint256 feeGrowthOutsideLower;
-		uint256 feeGrowthOutsideUpper;
-		uint256 feeGrowthGlobal;
-
-		if (isZero) {
-			feeGrowthGlobal = pool.feeGrowthGlobal0X128();
-			(, , feeGrowthOutsideLower, , , , , ) = pool.ticks(ticks.lowerTick);
-			(, , feeGrowthOutsideUpper, , , , , ) = pool.ticks(ticks.upperTick);
-		} else {
-			feeGrowthGlobal = pool.feeGrowthGlobal1X128();
-			(, , , feeGrowthOutsideLower, , , , ) = pool.ticks(ticks.lowerTick);
-			(, , , feeGrowthOutsideUpper, , , , ) = pool.ticks(ticks.upperTick);
-		}
+	/// @notice Withdraws the `burnAmount` share of the limit position liquidity
+	function _withdrawLimitShare(
+		uint256 burnAmount,
+		uint256 totalSupply
+	) internal returns (uint256 burn0, uint256 burn1) {
+		Ticks memory ticks = limitTicks;
+		if (ticks.lowerTick == ticks.upperTick) return (0, 0);
 
-		unchecked {
-			// Calculate fee growth below
-			uint256 feeGrowthBelow;
-			if (tick >= ticks.lowerTick) {
-				feeGrowthBelow = feeGrowthOutsideLower;
-			} else {
-				feeGrowthBelow = feeGrowthGlobal - feeGrowthOutsideLower;
-			}
+		(uint128 liquidity, , , , ) = pool.positions(_getPositionID(ticks));
+		uint128 liquidityBurnt = SafeCast.toUint128(
+			FullMath.mulDiv(burnAmount, liquidity, totalSupply)
+		);
+		if (liquidityBurnt == 0) return (0, 0);
 
-			// Calculate fee growth above
-			uint256 feeGrowthAbove;
-			if (tick < ticks.upperTick) {
-				feeGrowthAbove = feeGrowthOutsideUpper;
-			} else {
-				feeGrowthAbove = feeGrowthGlobal - feeGrowthOutsideUpper;
-			}
+		uint256 fee0;
+		uint256 fee1;
+		(burn0, burn1, fee0, fee1) = _withdraw(ticks, liquidityBurnt);
 
-			uint256 feeGrowthInside = feeGrowthGlobal - feeGrowthBelow - feeGrowthAbove;
-			fee = FullMath.mulDiv(
-				liquidity,
-				feeGrowthInside - feeGrowthInsideLast,
-				0x100000000000000000000000000000000
-			);
-		}
+		_applyFees(fee0, fee1);
 	}
 
-	/// @dev Needed in case token0 and token1 have different decimals
-	function _amountsDirection(
-		uint256 amount0Desired,
-		uint256 amount1Desired,
-		uint256 amount0,
-		uint256 amount1
-	) internal pure returns (bool zeroGreaterOne) {
-		zeroGreaterOne = (amount0Desired - amount0) * amount1Desired >
-			(amount1Desired - amount1) * amount0Desired
-			? true
-			: false;
+	function _checkCallbackCaller() internal view {
+		require(msg.sender == address(pool), "callback caller");
 	}
 
-	function _checkPriceSlippage() internal view {
-		uint32[] memory secondsAgo = new uint32[](2);
-		secondsAgo[0] = oracleSlippageInterval;
-		secondsAgo[1] = 0;
-
-		(int56[] memory tickCumulatives, ) = pool.observe(secondsAgo);
+	/// @notice Forwards the call to the extension, which runs it on the vault storage
+	function _delegate(address target) internal {
+		_delegate(target, msg.data);
+	}
 
-		require(tickCumulatives.length == 2, "array length");
-		uint160 avgSqrtRatioX96;
-		unchecked {
-			int24 avgTick = int24(
-				(tickCumulatives[1] - tickCumulatives[0]) / int56(uint56(oracleSlippageInterval))
-			);
-			avgSqrtRatioX96 = avgTick.getSqrtRatioAtTick();
+	/// @notice Forwards `data` to `target`, which runs it on the vault storage
+	function _delegate(address target, bytes calldata data) internal {
+		// solhint-disable-next-line no-inline-assembly
+		assembly {
+			calldatacopy(0, data.offset, data.length)
+			let result := delegatecall(gas(), target, 0, data.length, 0, 0)
+			returndatacopy(0, 0, returndatasize())
+			switch result
+			case 0 {
+				revert(0, returndatasize())
+			}
+			default {
+				return(0, returndatasize())
+			}
 		}
+	}
 
-		(uint160 sqrtPriceX96, , , , , , ) = pool.slot0();
-
-		uint256 oracleSlippageSqrt = avgSqrtRatioX96 < sqrtPriceX96
-			? prbSqrt(basisOne + oracleSlippage)
-			: prbSqrt(basisOne - oracleSlippage);
-
-		uint160 limitSqrtRatioX96 = uint160((avgSqrtRatioX96 * oracleSlippageSqrt) / basisOneSqrt);
-
-		bool correctBound = avgSqrtRatioX96 < sqrtPriceX96
-			? sqrtPriceX96 < limitSqrtRatioX96
-			: sqrtPriceX96 > limitSqrtRatioX96;
-
-		require(correctBound, "high slippage");
+	/// @notice Forwards the call of a view function to GrizzlyVaultViews with a static call
+	/// of delegateView, so the view cannot modify the vault storage
+	/// @return result Return data of the view function
+	function _delegateView() internal view returns (bytes memory result) {
+		bool success;
+		(success, result) = address(this).staticcall(
+			abi.encodeCall(this.delegateView, (msg.data))
+		);
+		if (!success) {
+			// solhint-disable-next-line no-inline-assembly
+			assembly {
+				revert(add(result, 32), mload(result))
+			}
+		}
 	}
 }
@@ -0,0 +1,478 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.18;
+
+import { GrizzlyVaultBase } from "./abstract/GrizzlyVaultBase.sol";
+import { IERC20, SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { IUniswapV3TickSpacing } from "./interfaces/IUniswapV3TickSpacing.sol";
+import { IGrizzlyStrategy } from "./interfaces/IGrizzlyStrategy.sol";
+import { PoolActions } from "./libraries/PoolActions.sol";
+import { PoolMath } from "./libraries/PoolMath.sol";
+
+/// @notice Position management, keeper and single token mint functions of Grizzly Vaults
+/// @dev Never called directly, GrizzlyVault delegates these calls here so they run on the
+/// vault storage. Shares the GrizzlyVault storage layout through GrizzlyVaultBase
+contract GrizzlyVaultExtension is GrizzlyVaultBase {
+	using SafeERC20 for IERC20;
+
+	// --- User functions --- //
+
+	/// @notice Mint Grizzly Vault tokens depositing only one of the underlying tokens
+	/// @dev A portion of `amountIn` is swapped in the vault pool to match the position ratio.
+	/// Any amount that can not be deposited is sent back to msg.sender
+	/// @param tokenIndex If 0 deposits token0, if 1 deposits token1
+	/// @param amountIn The amount of the token to transfer from msg.sender
+	/// @param minShares The minimum number of Grizzly Vault tokens to mint in order to not revert
+	/// @param receiver The account to receive the minted tokens
+	/// @return amount0 Amount of token0 deposited into the vault after the swap
+	/// @return amount1 Amount of token1 deposited into the vault after the swap
+	/// @return mintAmount Number of Grizzly Vault tokens minted to receiver
+	/// @return liquidityMinted Amount of liquidity added to the underlying Uniswap V3 position
+	// solhint-disable-next-line function-max-lines
+	function mintWithToken(
+		uint8 tokenIndex,
+		uint256 amountIn,
+		uint256 minShares,
+		address receiver
+	)
+		external
+		nonReentrant
+		whenNotPaused
+		returns (uint256 amount0, uint256 amount1, uint256 mintAmount, uint128 liquidityMinted)
+	{
+		require(amountIn > 0, "mint 0");
+		require(tokenIndex < 2, "wrong token index");
+		_checkUserPriceSlippage();
+		_checkNotTripped();
+
+		_accrueManagementFee();
+
+		LocalVariablesMintWithToken memory vars;
+		vars.totalSupply = totalSupply();
+
+		Ticks memory ticks = baseTicks;
+
+		if (tokenIndex == 0) {
+			token0.safeTransferFrom(msg.sender, address(this), amountIn);
+			(vars.finalAmount0, vars.finalAmount1) = _balanceAmounts(ticks, amountIn, 0, 0);
+		} else {
+			token1.safeTransferFrom(msg.sender, address(this), amountIn);
+			(vars.finalAmount0, vars.finalAmount1) = _balanceAmounts(ticks, 0, amountIn, 0);
+		}
+
+		(uint160 sqrtRatioX96, int24 tick, , , , , ) = pool.slot0();
+
+		if (vars.totalSupply > 0) {
+			// User amounts are already in the vault and must not be valued as vault holdings
+			(uint256 amount0Current, uint256 amount1Current) = _getUnderlyingBalances(
+				sqrtRatioX96,
+				tick
+			);
+			amount0Current -= vars.finalAmount0;
+			amount1Current -= vars.finalAmount1;
+			_checkShareValue(amount0Current, amount1Current, vars.totalSupply, sqrtRatioX96);
+
+			(amount0, amount1, mintAmount) = _computeMintAmounts(
+				vars.totalSupply,
+				amount0Current,
+				amount1Current,
+				vars.finalAmount0,
+				vars.finalAmount1
+			);
+		} else {
+			mintAmount = _liquidityForAmounts(
+				ticks,
+				sqrtRatioX96,
+				vars.finalAmount0,
+				vars.finalAmount1
+			);
+			require(mintAmount > MIN_INITIAL_SHARES, "min shares");
+			(amount0, amount1) = _amountsForLiquidity(uint128(mintAmount), ticks, sqrtRatioX96);
+		}
+
+		require(mintAmount >= minShares, "shares below min");
+
+		liquidityMinted = _addLiquidity(ticks, amount0, amount1);
+
+		_mint(receiver, mintAmount);
+
+		// Send back what could not be deposited
+		_transferAmounts(vars.finalAmount0 - amount0, vars.finalAmount1 - amount1, msg.sender);
+
+		emit Minted(receiver, mintAmount, amount0, amount1, liquidityMinted);
+	}
+
+	// --- External manager functions --- // Called by Pool Manager
+
+	/// @notice Change the range of underlying UniswapV3 position, only manager and strategists
+	/// can call, strategists within strategistTickRange of the current tick
+	/// @dev When changing the range the inventory of token0 and token1 may be rebalanced
+	/// with a swap to deposit as much liquidity as possible into the new position.
+	/// Swap a proportion of this leftover to deposit more liquidity into the position,
+	/// any leftover is then parked in the limit position if enabled
+	/// @param newLowerTick The new lower bound of the position's range
+	/// @param newUpperTick The new upper bound of the position's range
+	/// @param minLiquidity Minimum liquidity of the new position in order to not revert
+	function executiveRebalance(
+		int24 newLowerTick,
+		int24 newUpperTick,
+		uint128 minLiquidity
+	) external onlyRole(STRATEGIST_ROLE) {
+		if (msg.sender != manager()) _checkStrategistRange(newLowerTick, newUpperTick);
+
+		_executiveRebalance(
+			Ticks(newLowerTick, newUpperTick),
+			minLiquidity,
+			slippageRebalanceMax,
+			_balancedSwap()
+		);
+	}
+
+	/// @notice Same as executiveRebalance with a swap computed off-chain, only manager and
+	/// strategists can call
+	/// @dev Lets the strategist match the inventory to the new range precisely. The pool price
+	/// must pass the oracle check before and after the swap
+	/// @param newLowerTick The new lower bound of the position's range
+	/// @param newUpperTick The new upper bound of the position's range
+	/// @param minLiquidity Minimum liquidity of the new position in order to not revert
+	/// @param swapAmount Amount of the input token to swap, 0 skips the swap
+	/// @param zeroForOne Swap direction, true: token0 -> token1, false: token1 -> token0
+	/// @param sqrtPriceLimitX96 Price limit of the swap as a sqrt Q64.96
+	function executiveRebalance(
+		int24 newLowerTick,
+		int24 newUpperTick,
+		uint128 minLiquidity,
+		uint256 swapAmount,
+		bool zeroForOne,
+		uint160 sqrtPriceLimitX96
+	) external onlyRole(STRATEGIST_ROLE) {
+		require(sqrtPriceLimitX96 != 0, "wrong price limit");
+		if (msg.sender != manager()) _checkStrategistRange(newLowerTick, newUpperTick);
+
+		_executiveRebalance(
+			Ticks(newLowerTick, newUpperTick),
+			minLiquidity,
+			slippageRebalanceMax,
+			RebalanceSwap(swapAmount, zeroForOne, sqrtPriceLimitX96)
+		);
+	}
+
+	// --- External authorized functions --- //  Can be automated
+
+	/// @notice Reinvest fees earned into underlying position, only authorized executors can call,
+	/// or anyone once publicRebalanceInterval passed. The caller is paid the keeperBounty
+	/// @dev As the ticks do not change, liquidity must increase, otherwise will revert
+	/// Position bounds CANNOT be altered, only manager may via executiveRebalance
+	function rebalance() external {
+		require(_isKeeper(msg.sender) || _isPublicRebalance(), "not authorized");
+		_compound();
+	}
+
+	/// @notice Reinvest fees earned into underlying position, anyone can call once
+	/// compoundInterval passed since the last rebalance and the fees earned are above the
+	/// thresholds. The caller is paid the keeperBounty
+	/// @dev Same as rebalance, fees are computed as in estimateFees
+	function compound() external {
+		require(
+			compoundInterval != 0 &&
+				// solhint-disable-next-line not-rely-on-time
+				block.timestamp >= lastRebalance + compoundInterval,
+			"compound cooldown"
+		);
+
+		(uint160 sqrtRatioX96, int24 tick, , , , , ) = pool.slot0();
+		(, , uint256 fee0, uint256 fee1) = _getPositionsUnderlying(sqrtRatioX96, tick);
+		require(fee0 > compoundThreshold0 || fee1 > compoundThreshold1, "fees below threshold");
+
+		_compound();
+	}
+
+	/// @notice Recenter the position around the TWAP following the manager recenter strategy,
+	/// only authorized executors can call
+	/// @dev Keepers can not pick the ticks, the new range of recenterWidth tick spacings is
+	/// derived from the TWAP used in _checkPriceSlippage and set as in executiveRebalance
+	function recenter() external onlyAuthorized {
+		require(recenterWidth != 0, "recenter disabled");
+		// solhint-disable-next-line not-rely-on-time
+		require(block.timestamp >= lastRecenter + recenterInterval, "recenter cooldown");
+
+		Ticks memory newTicks = _recenterTicks();
+
+		// solhint-disable-next-line not-rely-on-time
+		lastRecenter = block.timestamp;
+
+		_executiveRebalance(newTicks, 0, slippageRebalanceMax, _balancedSwap());
+	}
+
+	/// @notice Move the position to the range returned by the strategy set by the manager,
+	/// only authorized executors can call
+	/// @dev The strategy is given the current range and the TWAP used in _checkPriceSlippage.
+	/// Its swap slippage is capped by slippageRebalanceMax, which also applies when it returns 0
+	function strategyRebalance() external onlyAuthorized {
+		require(strategy != address(0), "no strategy");
+
+		Ticks memory ticks = baseTicks;
+		(Ticks memory newTicks, uint24 swapSlippageMax) = IGrizzlyStrategy(strategy)
+			.getRebalanceParams(pool, ticks, _getTwapTick());
+
+		require(
+			newTicks.lowerTick != ticks.lowerTick || newTicks.upperTick != ticks.upperTick,
+			"no strategy rebalance"
+		);
+
+		if (swapSlippageMax == 0 || swapSlippageMax > slippageRebalanceMax) {
+			swapSlippageMax = slippageRebalanceMax;
+		}
+
+		_executiveRebalance(newTicks, 0, swapSlippageMax, _balancedSwap());
+	}
+
+	// --- Internal core functions --- //
+
+	/// @notice Moves the liquidity to `newTicks`, swapping to deposit as much as possible
+	/// with a maximum price move of `swapSlippageMax`, or with `swap` if computed off-chain
+	// solhint-disable-next-line function-max-lines
+	function _executiveRebalance(
+		Ticks memory newTicks,
+		uint128 minLiquidity,
+		uint24 swapSlippageMax,
+		RebalanceSwap memory swap
+	) internal {
+		require(!emergency, "emergency");
+
+		//validate new ticks
+		require(
+			_validateTickSpacing(address(pool), newTicks.lowerTick, newTicks.upperTick),
+			"tickSpacing mismatch"
+		);
+
+		// First check pool health
+		_checkPriceSlippage();
+
+		_checkCircuitBreaker();
+
+		uint128 liquidity;
+		uint128 newLiquidity;
+		uint128 limitLiquidity;
+
+		Ticks memory ticks = baseTicks;
+
+		if (totalSupply() > 0) {
+			(uint256 fee0, uint256 fee1) = _withdrawLimit();
+
+			(liquidity, , , , ) = pool.positions(_getPositionID(ticks));
+			if (liquidity > 0) {
+				(, , uint256 baseFee0, uint256 baseFee1) = _withdraw(ticks, liquidity);
+				fee0 += baseFee0;
+				fee1 += baseFee1;
+			}
+			_applyFees(fee0, fee1);
+
+			// Update storage ticks
+			baseTicks = newTicks;
+
+			(uint256 finalAmount0, uint256 finalAmount1) = _rebalanceSwap(
+				newTicks,
+				swapSlippageMax,
+				swap
+			);
+
+			_addLiquidity(newTicks, finalAmount0, finalAmount1);
+
+			(newLiquidity, , , , ) = pool.positions(_getPositionID(newTicks));
+
+			require(newLiquidity > minLiquidity, "min liquidity");
+
+			limitLiquidity = _placeLimit();
+		} else {
+			// Update storage ticks
+			baseTicks = newTicks;
+		}
+
+		_recordShareValue();
+
+		_emitRebalance(newTicks, liquidity, newLiquidity, limitLiquidity);
+	}
+
+	/// @notice Swaps the idle balances for the new position of an executive rebalance, with the
+	/// approximation of _balanceAmounts or with `swap` if computed off-chain
+	/// @dev The pool price must pass the oracle check after a swap computed off-chain
+	/// @return finalAmount0 Amount of token0 available for the new position
+	/// @return finalAmount1 Amount of token1 available for the new position
+	function _rebalanceSwap(
+		Ticks memory newTicks,
+		uint24 swapSlippageMax,
+		RebalanceSwap memory swap
+	) internal returns (uint256 finalAmount0, uint256 finalAmount1) {
+		(finalAmount0, finalAmount1) = _idleBalances();
+
+		if (swap.sqrtPriceLimitX96 == 0) {
+			return _balanceAmounts(newTicks, finalAmount0, finalAmount1, swapSlippageMax);
+		}
+		if (swap.amountIn == 0) return (finalAmount0, finalAmount1);
+
+		PoolActions.swapToLimit(pool, swap.amountIn, swap.zeroForOne, swap.sqrtPriceLimitX96);
+		_checkPriceSlippage();
+
+		return _idleBalances();
+	}
+
+	/// @notice Compounds the fees earned into the base position, then places the limit position
+	function _compound() internal {
+		require(!emergency, "emergency");
+
+		// First check pool health
+		_checkPriceSlippage();
+
+		_checkCircuitBreaker();
+
+		_accrueManagementFee();
+
+		Ticks memory ticks = baseTicks;
+
+		// In rebalance ticks remain the same
+		bytes32 key = _getPositionID(ticks);
+
+		(uint128 liquidity, , , , ) = pool.positions(key);
+
+		(uint256 limitFee0, uint256 limitFee1) = _withdrawLimit();
+
+		_rebalance(liquidity, ticks, limitFee0, limitFee1);
+
+		(uint128 newLiquidity, , , , ) = pool.positions(key);
+		require(newLiquidity > liquidity, "liquidity must increase");
+
+		// solhint-disable-next-line not-rely-on-time
+		lastRebalance = block.timestamp;
+
+		uint128 limitLiquidity = _placeLimit();
+		_recordShareValue();
+
+		_emitRebalance(ticks, liquidity, newLiquidity, limitLiquidity);
+	}
+
+	/// @dev `limitFee0` and `limitFee1` are the fees of the limit position, withdrawn before
+	function _rebalance(
+		uint128 liquidity,
+		Ticks memory ticks,
+		uint256 limitFee0,
+		uint256 limitFee1
+	) internal {
+		(, , uint256 feesEarned0, uint256 feesEarned1) = _withdraw(ticks, liquidity);
+		feesEarned0 += limitFee0;
+		feesEarned1 += limitFee1;
+
+		// The caller is paid its bounty out of the fees harvested by both positions
+		uint256 bounty0 = (feesEarned0 * keeperBounty) / basisOne;
+		uint256 bounty1 = (feesEarned1 * keeperBounty) / basisOne;
+		_applyFees(feesEarned0, feesEarned1, bounty0, bounty1);
+		_transferAmounts(bounty0, bounty1, msg.sender);
+
+		(uint256 leftover0, uint256 leftover1) = _idleBalances();
+
+		// Note if we balance amounts in _rebalance it can underflow
+		// Note check how precise is adding liquidity maintaining the ticks
+		_addLiquidity(ticks, leftover0, leftover1);
+	}
+
+	/// @notice Parks the idle balances in a single-sided position next to the current price
+	/// @dev The range below the price holds token1 and the range above holds token0,
+	/// the one getting more liquidity from the idle balances is used
+	/// @return liquidity Liquidity of the new limit position, 0 if none was placed
+	function _placeLimit() internal returns (uint128 liquidity) {
+		if (limitWidth == 0) return 0;
+
+		(uint160 sqrtRatioX96, int24 tick, , , , , ) = pool.slot0();
+		(Ticks memory bid, Ticks memory ask) = _limitRanges(tick);
+
+		uint128 bidLiquidity;
+		uint128 askLiquidity;
+		{
+			(uint256 idle0, uint256 idle1) = _idleBalances();
+
+			bidLiquidity = _liquidityForAmounts(bid, sqrtRatioX96, idle0, idle1);
+			askLiquidity = _liquidityForAmounts(ask, sqrtRatioX96, idle0, idle1);
+		}
+
+		Ticks memory ticks = bidLiquidity > askLiquidity ? bid : ask;
+		liquidity = bidLiquidity > askLiquidity ? bidLiquidity : askLiquidity;
+
+		if (
+			liquidity == 0 || !_validateTickSpacing(address(pool), ticks.lowerTick, ticks.upperTick)
+		) return 0;
+
+		limitTicks = ticks;
+		pool.mint(address(this), ticks.lowerTick, ticks.upperTick, liquidity, "");
+	}
+
+	function _emitRebalance(
+		Ticks memory ticks,
+		uint128 liquidity,
+		uint128 newLiquidity,
+		uint128 limitLiquidity
+	) internal {
+		Ticks memory limit = limitTicks;
+		emit Rebalance(
+			ticks.lowerTick,
+			ticks.upperTick,
+			liquidity,
+			newLiquidity,
+			limit.lowerTick,
+			limit.upperTick,
+			limitLiquidity
+		);
+	}
+
+	// --- Internal view functions --- //
+
+	/// @notice Swap of the rebalances balancing the amounts with PoolActions.balanceAmounts
+	function _balancedSwap() internal pure returns (RebalanceSwap memory swap) {
+		return swap;
+	}
+
+	/// @notice Range of recenterWidth tick spacings around the TWAP tick
+	/// @dev Reverts if the TWAP is closer than recenterTrigger ticks to the current range center
+	function _recenterTicks() internal view returns (Ticks memory newTicks) {
+		int24 twapTick = _getTwapTick();
+
+		Ticks memory ticks = baseTicks;
+		int24 center = (ticks.lowerTick + ticks.upperTick) / 2;
+		int24 distance = twapTick > center ? twapTick - center : center - twapTick;
+		require(distance >= recenterTrigger, "no recenter needed");
+
+		newTicks = PoolMath.centeredTicks(
+			twapTick,
+			recenterWidth,
+			IUniswapV3TickSpacing(address(pool)).tickSpacing()
+		);
+	}
+
+	function _isPublicRebalance() internal view returns (bool) {
+		return
+			publicRebalanceInterval != 0 &&
+			// solhint-disable-next-line not-rely-on-time
+			block.timestamp >= lastRebalance + publicRebalanceInterval;
+	}
+
+	function _checkStrategistRange(int24 newLowerTick, int24 newUpperTick) internal view {
+		(, int24 tick, , , , , ) = pool.slot0();
+		require(
+			newLowerTick >= tick - strategistTickRange && newUpperTick <= tick + strategistTickRange,
+			"out of strategist range"
+		);
+	}
+
+	/// @notice Computes the limit position ranges right below and right above `tick`
+	function _limitRanges(
+		int24 tick
+	) internal view returns (Ticks memory bid, Ticks memory ask) {
+		int24 width = limitWidth;
+		int24 spacing = IUniswapV3TickSpacing(address(pool)).tickSpacing();
+
+		// Round the current tick down to the tick spacing
+		int24 floor = (tick / spacing) * spacing;
+		if (tick < 0 && tick % spacing != 0) floor -= spacing;
+
+		bid = Ticks(floor - width, floor);
+		ask = Ticks(floor + spacing, floor + spacing + width);
+	}
+}
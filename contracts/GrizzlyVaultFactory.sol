@@ -2,15 +2,18 @@
 pragma solidity 0.8.18;
 
 import { IUniswapV3Factory } from "@uniswap/v3-core/contracts/interfaces/IUniswapV3Factory.sol";
+import { IUniswapV3Pool } from "@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol";
 import { IUniswapV3TickSpacing } from "./interfaces/IUniswapV3TickSpacing.sol";
 import { IGrizzlyVaultFactory } from "./interfaces/IGrizzlyVaultFactory.sol";
 import { IGrizzlyVaultStorage } from "./interfaces/IGrizzlyVaultStorage.sol";
+import { IGrizzlyVault } from "./interfaces/IGrizzlyVault.sol";
 import { TickMath } from "./uniswap/TickMath.sol";
-import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { Ownable2Step } from "@openzeppelin/contracts/access/Ownable2Step.sol";
 import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 import { IERC20Metadata } from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 
-contract GrizzlyVaultFactory is IGrizzlyVaultFactory, Ownable {
+// solhint-disable-next-line max-states-count
+contract GrizzlyVaultFactory is IGrizzlyVaultFactory, Ownable2Step {
 	using EnumerableSet for EnumerableSet.AddressSet;
 
 	string public constant NAME = "GrizzlyVaultCloneFactory";
@@ -21,14 +24,36 @@ contract GrizzlyVaultFactory is IGrizzlyVaultFactory, Ownable {
 	address public implementation;
 	address public grizzlyDeployer;
 
+	/* solhint-disable */
+	uint24 internal constant basisOne = 1000000;
+	/* solhint-enable */
+
+	// Maximum fee cut of vault managers, enforced by the vaults -> 100000 = 10% of the fees
+	uint24 public maxManagerFee;
+
+	// Share of the vaults fee cut that goes to the protocol -> 100000 = 10% of the fee cut
+	uint24 public constant MAX_PROTOCOL_FEE = 500000;
+	uint24 public protocolFee;
+	address public protocolTreasury;
+
+	// Expected seconds between two pool observations, at most one is written per block
+	uint32 public observationPeriod;
+
 	mapping(address => EnumerableSet.AddressSet) internal _vaults;
 
 	event VaultCreated(address indexed uniPool, address indexed manager, address indexed vault);
 	event ImplementationVaultChanged(address newImplementation, address origImplementation);
+	event MaxManagerFeeChanged(uint24 newMaxManagerFee);
+	event ProtocolFeeChanged(uint24 newProtocolFee);
+	event ProtocolTreasuryChanged(address newProtocolTreasury);
+	event ObservationPeriodChanged(uint32 newObservationPeriod);
 
 	constructor(address _implementation, address _grizzlyDeployer) {
 		implementation = _implementation;
 		grizzlyDeployer = _grizzlyDeployer;
+		protocolTreasury = msg.sender;
+		maxManagerFee = 200000; // default: 20% of the fees
+		observationPeriod = 12; // default: Ethereum block time
 	}
 
 	/// @notice getGrizzlyVaults gets all the Grizzly Vaults deployed by Grizzly's
@@ -126,6 +151,8 @@ contract GrizzlyVaultFactory is IGrizzlyVaultFactory, Ownable {
 			manager
 		);
 
+		increaseObservationCardinality(uniPool, IGrizzlyVault(newVault).oracleSlippageInterval());
+
 		_vaults[msg.sender].add(newVault);
 
 		emit VaultCreated(uniPool, manager, newVault);
@@ -171,11 +198,66 @@ contract GrizzlyVaultFactory is IGrizzlyVaultFactory, Ownable {
 		return string(abi.encodePacked(a, b, c, d, e));
 	}
 
+	// ---- Oracle ---- //
+
+	/// @notice Grows the observations of `uniPool` to cover a TWAP over `interval`, if needed
+	/// @dev Anyone can call, vaults call it when their oracleSlippageInterval changes.
+	/// The TWAP is only available once the new observations are written, see isOracleReady
+	/// @param uniPool Uniswap V3 pool to prepare
+	/// @param interval Length of time of the TWAP
+	function increaseObservationCardinality(address uniPool, uint32 interval) public {
+		uint16 cardinality = getObservationCardinality(interval);
+		(, , , , uint16 cardinalityNext, , ) = IUniswapV3Pool(uniPool).slot0();
+
+		if (cardinalityNext < cardinality) {
+			IUniswapV3Pool(uniPool).increaseObservationCardinalityNext(cardinality);
+		}
+	}
+
+	/// @notice Number of observations needed for a TWAP over `interval` with one observation
+	/// every observationPeriod seconds
+	function getObservationCardinality(uint32 interval) public view returns (uint16) {
+		uint256 cardinality = interval / observationPeriod + 1;
+		return cardinality > type(uint16).max ? type(uint16).max : uint16(cardinality);
+	}
+
 	function setImplementationVault(address _newImplementation) external onlyOwner {
 		require(_newImplementation != address(0), "zeroAddress");
 		address oldImplementationVault = implementation;
 		implementation = _newImplementation;
 		emit ImplementationVaultChanged(implementation, oldImplementationVault);
 	}
+
+	/// @notice Set the maximum manager fee of the vaults, only owner can call
+	/// @dev Vaults check it on initialize and on manager fee updates, current fees are kept
+	/// @param _maxManagerFee Proportion of the fees earned in Basis Points
+	function setMaxManagerFee(uint24 _maxManagerFee) external onlyOwner {
+		require(_maxManagerFee <= basisOne, "fee too high");
+		maxManagerFee = _maxManagerFee;
+		emit MaxManagerFeeChanged(_maxManagerFee);
+	}
+
+	/// @notice Set the share of the vaults fee cut credited to the protocol, only owner can call
+	/// @param _protocolFee Proportion of the manager fee cut in Basis Points, capped
+	function setProtocolFee(uint24 _protocolFee) external onlyOwner {
+		require(_protocolFee <= MAX_PROTOCOL_FEE, "protocol fee too high");
+		protocolFee = _protocolFee;
+		emit ProtocolFeeChanged(_protocolFee);
+	}
+
+	/// @notice Set the expected seconds between two pool observations, only owner can call
+	/// @dev Block time of the network, used to size the observations of vault pools
+	function setObservationPeriod(uint32 _observationPeriod) external onlyOwner {
+		require(_observationPeriod > 0, "wrong observation period");
+		observationPeriod = _observationPeriod;
+		emit ObservationPeriodChanged(_observationPeriod);
+	}
+
+	/// @notice Set the receiver of the protocol fees of all vaults, only owner can call
+	function setProtocolTreasury(address _protocolTreasury) external onlyOwner {
+		require(_protocolTreasury != address(0), "zeroAddress");
+		protocolTreasury = _protocolTreasury;
+		emit ProtocolTreasuryChanged(_protocolTreasury);
+	}
 }
 
@@ -0,0 +1,414 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.18;
+
+import { GrizzlyVaultBase } from "./abstract/GrizzlyVaultBase.sol";
+import { IUniswapV3TickSpacing } from "./interfaces/IUniswapV3TickSpacing.sol";
+import { IGrizzlyVaultFactory } from "./interfaces/IGrizzlyVaultFactory.sol";
+import { TickMath } from "./uniswap/TickMath.sol";
+import { Underlying } from "./libraries/Underlying.sol";
+
+/// @notice Manager configuration, guardian and fee withdrawal functions of Grizzly Vaults
+/// @dev Never called directly, GrizzlyVault delegates these calls here so they run on the
+/// vault storage. Shares the GrizzlyVault storage layout through GrizzlyVaultBase
+contract GrizzlyVaultSettings is GrizzlyVaultBase {
+	// --- External manager functions --- // Called by Pool Manager
+
+	/// @notice Set the width of the limit position, only manager can call
+	/// @dev Applied on the next rebalance, 0 disables the limit position
+	/// @param _limitWidth Width in ticks of the limit position, multiple of the tick spacing
+	function setLimitWidth(int24 _limitWidth) external onlyManager timelocked {
+		int24 spacing = IUniswapV3TickSpacing(address(pool)).tickSpacing();
+		require(_limitWidth >= 0 && _limitWidth % spacing == 0, "wrong limit width");
+		emit SetLimitWidth(_limitWidth);
+		limitWidth = _limitWidth;
+	}
+
+	/// @notice setManagerFee sets a managerFee, only manager can call
+	/// @dev Capped by maxManagerFee of the factory. Decreases apply immediately, increases
+	/// are queued for MANAGER_FEE_DELAY to warn depositors, unless the vault has none
+	/// @param _managerFee Proportion of fees earned that are credited to manager in Basis Points
+	function setManagerFee(uint24 _managerFee) external onlyManager timelocked {
+		require(
+			_managerFee > 0 && _managerFee <= IGrizzlyVaultFactory(grizzlyFactory).maxManagerFee(),
+			"invalid manager fee"
+		);
+
+		if (_managerFee > managerFee && totalSupply() > 0) {
+			pendingManagerFee = _managerFee;
+			// solhint-disable-next-line not-rely-on-time
+			pendingManagerFeeTimestamp = block.timestamp + MANAGER_FEE_DELAY;
+			emit ManagerFeeQueued(_managerFee, pendingManagerFeeTimestamp);
+		} else {
+			_setManagerFee(_managerFee);
+		}
+	}
+
+	/// @notice Apply the queued manager fee increase after its notice period, anyone can call
+	/// @dev Reverts if the fee is now above maxManagerFee of the factory
+	function applyManagerFee() external {
+		uint24 _managerFee = pendingManagerFee;
+		require(
+			// solhint-disable-next-line not-rely-on-time
+			_managerFee > 0 && block.timestamp >= pendingManagerFeeTimestamp,
+			"fee timelock"
+		);
+		require(
+			_managerFee <= IGrizzlyVaultFactory(grizzlyFactory).maxManagerFee(),
+			"invalid manager fee"
+		);
+
+		_setManagerFee(_managerFee);
+	}
+
+	/// @notice Set the annualised management fee minted to managerTreasury, only manager can call
+	/// @dev The fee accrued at the previous rate is minted first
+	/// @param _managementFee Yearly proportion of the vault shares, at most MAX_MANAGEMENT_FEE
+	function setManagementFee(uint24 _managementFee) external onlyManager timelocked {
+		require(_managementFee <= MAX_MANAGEMENT_FEE, "management fee too high");
+		_accrueManagementFee();
+		emit SetManagementFee(_managementFee);
+		managementFee = _managementFee;
+	}
+
+	/// @notice Change configurable parameters, only manager can call
+	/// @param newOracleSlippage Maximum slippage on swaps during Grizzly rebalance
+	/// @param newOracleSlippageInterval Length of time for TWAP used in computing slippage on swaps
+	/// @param newTreasury Address where managerFee withdrawals are sent
+	function updateConfigParams(
+		uint24 newOracleSlippage,
+		uint32 newOracleSlippageInterval,
+		address newTreasury
+	) external onlyManager timelocked {
+		require(newOracleSlippage <= basisOne, "slippage too high");
+
+		if (newOracleSlippage != 0) oracleSlippage = newOracleSlippage;
+		if (newOracleSlippageInterval != 0) oracleSlippageInterval = newOracleSlippageInterval;
+		emit UpdateGrizzlyParams(newOracleSlippage, newOracleSlippageInterval);
+
+		if (newTreasury != address(0)) managerTreasury = newTreasury;
+
+		// Grow the pool observations to cover the TWAP interval
+		IGrizzlyVaultFactory(grizzlyFactory).increaseObservationCardinality(
+			address(pool),
+			oracleSlippageInterval
+		);
+	}
+
+	/// @notice Set the maximum deviation of the pool price from the TWAP on user mints and burns,
+	/// only manager can call
+	/// @dev Checked over oracleSlippageInterval, mints and burns revert with "price deviation"
+	/// @param _userOracleSlippage Maximum deviation, 0 disables the check
+	function setUserOracleSlippage(uint24 _userOracleSlippage) external onlyManager timelocked {
+		require(_userOracleSlippage < basisOne, "slippage too high");
+		emit SetUserOracleSlippage(_userOracleSlippage);
+		userOracleSlippage = _userOracleSlippage;
+	}
+
+	/// @notice Set the external price feeds of the oracle check, only manager can call
+	/// @dev The oracle check falls back to the TWAP while a feed is stale or broken
+	/// @param _feed0 USD feed of token0, or feed of the token0 price in token1 if `_feed1` is not
+	/// set. address(0) removes the feeds
+	/// @param _feed1 USD feed of token1
+	/// @param _heartbeat Seconds after which a feed answer is stale
+	function setPriceFeeds(
+		address _feed0,
+		address _feed1,
+		uint32 _heartbeat
+	) external onlyManager timelocked {
+		require(_feed0 == address(0) ? _feed1 == address(0) : _heartbeat > 0, "wrong price feeds");
+		emit SetPriceFeeds(_feed0, _feed1, _heartbeat);
+		priceFeeds = PriceFeeds(_feed0, _feed1, _heartbeat);
+	}
+
+	/// @notice Set the keeper allowed to rebalance, only manager can call
+	function setKeeperAddress(address _keeperAddress) external onlyManager timelocked {
+		require(_keeperAddress != address(0), "zeroAddress");
+		keeperAddress = _keeperAddress;
+	}
+
+	/// @notice Set the maximum slippage of user and rebalance swaps, only manager can call
+	function setManagerParams(
+		uint24 _slippageUserMax,
+		uint24 _slippageRebalanceMax
+	) external onlyManager timelocked {
+		require(_slippageUserMax <= basisOne && _slippageRebalanceMax <= basisOne, "wrong inputs");
+		slippageUserMax = _slippageUserMax;
+		slippageRebalanceMax = _slippageRebalanceMax;
+	}
+
+	/// @notice Queue a configuration change, executable after configDelay, only manager can call
+	/// @dev The change is executed by calling the timelocked function with the queued calldata,
+	/// within CONFIG_GRACE_PERIOD after its ETA. Queueing the same calldata again resets its ETA
+	/// @param data Calldata of the call to a timelocked function of the vault
+	function queueConfig(bytes calldata data) external onlyManager {
+		bytes32 id = keccak256(data);
+		// solhint-disable-next-line not-rely-on-time
+		uint256 eta = block.timestamp + configDelay;
+		configQueue[id] = eta;
+		emit ConfigQueued(id, data, eta);
+	}
+
+	/// @notice Cancel a queued configuration change, only manager can call
+	/// @param id keccak256 of the queued calldata
+	function cancelConfig(bytes32 id) external onlyManager {
+		require(configQueue[id] != 0, "not queued");
+		delete configQueue[id];
+		emit ConfigCancelled(id);
+	}
+
+	/// @notice Set the delay of configuration changes, only manager can call
+	/// @param _configDelay Seconds between queueing and executing a change, 0 disables it
+	function setConfigDelay(uint32 _configDelay) external onlyManager timelocked {
+		require(_configDelay <= MAX_CONFIG_DELAY, "delay too long");
+		emit SetConfigDelay(_configDelay);
+		configDelay = _configDelay;
+	}
+
+	/// @notice Grant `role` to `account`, only manager can call
+	/// @param role One of KEEPER_ROLE, STRATEGIST_ROLE or TREASURY_ROLE
+	/// @param account Address receiving the role
+	function grantRole(bytes32 role, address account) external onlyManager timelocked {
+		require(
+			role == KEEPER_ROLE || role == STRATEGIST_ROLE || role == TREASURY_ROLE,
+			"wrong role"
+		);
+		require(account != address(0), "zeroAddress");
+		hasRole[role][account] = true;
+		emit RoleGranted(role, account);
+	}
+
+	/// @notice Revoke `role` from `account`, only manager can call
+	/// @dev Not timelocked so that compromised keys can be revoked immediately
+	function revokeRole(bytes32 role, address account) external onlyManager {
+		require(hasRole[role][account], "no role");
+		delete hasRole[role][account];
+		emit RoleRevoked(role, account);
+	}
+
+	/// @notice Set the range allowed to strategist executive rebalances, only manager can call
+	/// @param _strategistTickRange Distance in ticks from the current tick within which the new
+	/// position must be, 0 prevents strategists from executive rebalancing
+	function setStrategistTickRange(int24 _strategistTickRange) external onlyManager timelocked {
+		require(
+			_strategistTickRange >= 0 && _strategistTickRange <= TickMath.MAX_TICK,
+			"wrong strategist range"
+		);
+		emit SetStrategistTickRange(_strategistTickRange);
+		strategistTickRange = _strategistTickRange;
+	}
+
+	/// @notice Set the bounty paid to rebalance callers, only manager can call
+	/// @param _keeperBounty Share of the fees compounded by rebalance paid to the caller
+	/// @param _publicRebalanceInterval Seconds since the last rebalance after which anyone can
+	/// rebalance and earn the bounty, 0 restricts rebalance to keepers
+	function setKeeperBounty(
+		uint24 _keeperBounty,
+		uint32 _publicRebalanceInterval
+	) external onlyManager timelocked {
+		require(_keeperBounty <= MAX_KEEPER_BOUNTY, "bounty too high");
+		emit SetKeeperBounty(_keeperBounty, _publicRebalanceInterval);
+		keeperBounty = _keeperBounty;
+		publicRebalanceInterval = _publicRebalanceInterval;
+	}
+
+	/// @notice Set the recenter strategy applied by keepers, only manager can call
+	/// @param _recenterWidth Width of the new range in tick spacings, 0 disables recenter
+	/// @param _recenterTrigger Distance in ticks of the TWAP from the range center above which
+	/// the position can be recentered
+	/// @param _recenterInterval Minimum seconds between two recenters
+	function setRecenterParams(
+		int24 _recenterWidth,
+		int24 _recenterTrigger,
+		uint32 _recenterInterval
+	) external onlyManager timelocked {
+		require(_recenterWidth >= 0 && _recenterTrigger >= 0, "wrong recenter params");
+		emit SetRecenterParams(_recenterWidth, _recenterTrigger, _recenterInterval);
+		recenterWidth = _recenterWidth;
+		recenterTrigger = _recenterTrigger;
+		recenterInterval = _recenterInterval;
+	}
+
+	/// @notice Set the price the limits of vault swaps are derived from, only manager can call
+	/// @dev Anchored to the TWAP, swaps revert if the pool price moved more than the slippage
+	/// from the TWAP
+	/// @param _swapAnchor Spot (pool price), Twap, or Min (the one allowing the smallest move)
+	function setSwapAnchor(SwapAnchor _swapAnchor) external onlyManager timelocked {
+		emit SetSwapAnchor(_swapAnchor);
+		swapAnchor = _swapAnchor;
+	}
+
+	/// @notice Set the strategy consulted by keepers on strategy rebalances, only manager can call
+	/// @param _strategy Address of the IGrizzlyStrategy contract, address(0) disables them
+	function setStrategy(address _strategy) external onlyManager timelocked {
+		emit SetStrategy(_strategy);
+		strategy = _strategy;
+	}
+
+	/// @notice Set when anyone can compound the fees earned, only manager can call
+	/// @param _compoundInterval Seconds since the last rebalance after which anyone can compound,
+	/// 0 disables compound
+	/// @param _compoundThreshold0 Compound requires more token0 fees earned than this amount,
+	/// or more token1 fees earned than `_compoundThreshold1`
+	/// @param _compoundThreshold1 Threshold of the token1 fees earned
+	function setCompoundParams(
+		uint32 _compoundInterval,
+		uint256 _compoundThreshold0,
+		uint256 _compoundThreshold1
+	) external onlyManager timelocked {
+		emit SetCompoundParams(_compoundInterval, _compoundThreshold0, _compoundThreshold1);
+		compoundInterval = _compoundInterval;
+		compoundThreshold0 = _compoundThreshold0;
+		compoundThreshold1 = _compoundThreshold1;
+	}
+
+	/// @notice Set the maximum deviation of the share value from its reference before the circuit
+	/// breaker trips, only manager can call
+	/// @dev Records the current share value as the reference
+	/// @param _shareValueDeviation Maximum deviation in Basis Points, 0 disables the circuit breaker
+	function setShareValueDeviation(
+		uint24 _shareValueDeviation
+	) external onlyManager timelocked {
+		require(_shareValueDeviation < basisOne, "deviation too high");
+		emit SetShareValueDeviation(_shareValueDeviation);
+		circuitBreaker.deviation = _shareValueDeviation;
+		_recordShareValue();
+	}
+
+	/// @notice Reset a tripped circuit breaker, only manager can call
+	/// @dev Records the current share value as the reference, mints and rebalances resume
+	function resetCircuitBreaker() external onlyManager {
+		circuitBreaker.tripped = false;
+		_recordShareValue();
+		emit CircuitBreakerReset(circuitBreaker.value);
+	}
+
+	/// @notice Set the guardian allowed to pause and wind down the vault, only manager can call
+	/// @dev Removing the guardian is not timelocked so that a compromised key can be removed
+	/// immediately
+	/// @param _guardian Address of the guardian, address(0) removes it
+	function setGuardian(address _guardian) external onlyManager {
+		if (_guardian != address(0)) _checkTimelock();
+		emit SetGuardian(_guardian);
+		guardian = _guardian;
+	}
+
+	// --- External guardian functions --- // Called by Pool Manager or Guardian
+
+	/// @notice Pause or unpause mints and zap ins, only manager or guardian can call
+	/// @dev Burns are never paused. Mints can not be unpaused after an emergency wind down
+	/// @param _paused True to pause mints, false to unpause them
+	function setPaused(bool _paused) external onlyGuardian {
+		require(!emergency, "emergency");
+		emit SetPaused(_paused);
+		paused = _paused;
+	}
+
+	/// @notice Withdraw the base and limit positions into idle balances and pause mints,
+	/// only manager or guardian can call
+	/// @dev Irreversible, afterwards burns return pro-rata idle balances without using the pool
+	/// and rebalances revert
+	function emergencyWindDown() external onlyGuardian {
+		require(!emergency, "emergency");
+		emergency = true;
+		paused = true;
+
+		(uint256 fee0, uint256 fee1) = _withdrawLimit();
+
+		Ticks memory ticks = baseTicks;
+		(uint128 liquidity, , , , ) = pool.positions(_getPositionID(ticks));
+		if (liquidity > 0) {
+			(, , uint256 baseFee0, uint256 baseFee1) = _withdraw(ticks, liquidity);
+			fee0 += baseFee0;
+			fee1 += baseFee1;
+		}
+		_applyFees(fee0, fee1);
+
+		(uint256 idle0, uint256 idle1) = _idleBalances();
+
+		emit SetPaused(true);
+		emit EmergencyWindDown(idle0, idle1);
+	}
+
+	// --- External authorized functions --- //  Can be automated
+
+	/// @notice Trip the circuit breaker if the share value deviates more than its deviation from
+	/// the reference, anyone can call
+	/// @dev The only way to trip it: mints and rebalances revert while the share value deviates,
+	/// which would also revert the trip. Lets monitoring record it and emit CircuitBreakerTripped
+	/// @return tripped Whether the circuit breaker tripped
+	function checkCircuitBreaker() external returns (bool tripped) {
+		CircuitBreaker storage breaker = circuitBreaker;
+		require(!breaker.tripped, "circuit breaker");
+		if (breaker.deviation == 0) return false;
+
+		(uint160 sqrtRatioX96, int24 tick, , , , , ) = pool.slot0();
+		(uint256 amount0, uint256 amount1) = _getUnderlyingBalances(sqrtRatioX96, tick);
+		uint256 value;
+		(tripped, value) = Underlying.isShareValueDeviated(
+			breaker,
+			amount0,
+			amount1,
+			totalSupply(),
+			sqrtRatioX96
+		);
+
+		if (tripped) {
+			breaker.tripped = true;
+			emit CircuitBreakerTripped(value);
+		}
+	}
+
+	/// @notice Withdraw manager fees accrued, only authorized executors and treasury role can call
+	/// Target account to receive fees is managerTreasury, alterable by only manager
+	function withdrawManagerBalance() external {
+		require(_isKeeper(msg.sender) || hasRole[TREASURY_ROLE][msg.sender], "not authorized");
+
+		uint256 amount0 = managerBalance0;
+		uint256 amount1 = managerBalance1;
+
+		managerBalance0 = 0;
+		managerBalance1 = 0;
+
+		_transferAmounts(amount0, amount1, managerTreasury);
+	}
+
+	/// @notice Withdraw protocol fees accrued to the protocolTreasury of the factory
+	/// @dev Anyone can call, the receiver is set by the factory owner
+	function withdrawProtocolBalance() external {
+		uint256 amount0 = protocolBalance0;
+		uint256 amount1 = protocolBalance1;
+
+		protocolBalance0 = 0;
+		protocolBalance1 = 0;
+
+		address treasury = IGrizzlyVaultFactory(grizzlyFactory).protocolTreasury();
+		_transferAmounts(amount0, amount1, treasury);
+
+		emit ProtocolBalanceWithdrawn(treasury, amount0, amount1);
+	}
+
+	// --- Internal core functions --- //
+
+	/// @dev Fees earned so far are collected and their cut credited at the previous managerFee
+	function _setManagerFee(uint24 _managerFee) internal {
+		_collectFees(baseTicks);
+		_collectFees(limitTicks);
+
+		delete pendingManagerFee;
+		delete pendingManagerFeeTimestamp;
+
+		emit SetManagerFee(_managerFee);
+		managerFee = _managerFee;
+	}
+
+	/// @notice Collects the fees of a position and credits the fee cut, without withdrawing it
+	function _collectFees(Ticks memory ticks) internal {
+		if (ticks.lowerTick == ticks.upperTick) return;
+
+		(uint128 liquidity, , , , ) = pool.positions(_getPositionID(ticks));
+		if (liquidity == 0) return;
+
+		(, , uint256 fee0, uint256 fee1) = _withdraw(ticks, 0);
+		_applyFees(fee0, fee1);
+	}
+}
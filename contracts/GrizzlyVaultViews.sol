@@ -0,0 +1,135 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.18;
+
+import { GrizzlyVaultBase } from "./abstract/GrizzlyVaultBase.sol";
+import { SafeCast } from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import { FullMath } from "./uniswap/FullMath.sol";
+import { Underlying } from "./libraries/Underlying.sol";
+import { PoolActions } from "./libraries/PoolActions.sol";
+
+/// @notice Preview and view functions of Grizzly Vaults
+/// @dev Never called directly, GrizzlyVault delegates these calls here so they run on the
+/// vault storage, statically for the view functions. Shares the GrizzlyVault storage layout
+/// through GrizzlyVaultBase
+contract GrizzlyVaultViews is GrizzlyVaultBase {
+	/// @notice Compute max Grizzly Vault tokens that can be minted from `amount0Max` & `amount1Max`
+	/// @param amount0Max The maximum amount of token0 to forward on mint
+	/// @param amount0Max The maximum amount of token1 to forward on mint
+	/// @return amount0 Actual amount of token0 to forward when minting `mintAmount`
+	/// @return amount1 Actual amount of token1 to forward when minting `mintAmount`
+	/// @return mintAmount Maximum number of Grizzly Vault tokens to mint
+	function getMintAmounts(
+		uint256 amount0Max,
+		uint256 amount1Max
+	) external view returns (uint256 amount0, uint256 amount1, uint256 mintAmount) {
+		uint256 totalSupply = totalSupply() + _pendingManagementFeeShares();
+		(uint160 sqrtRatioX96, int24 tick, , , , , ) = pool.slot0();
+
+		if (totalSupply > 0) {
+			(uint256 amount0Current, uint256 amount1Current) = _getUnderlyingBalances(
+				sqrtRatioX96,
+				tick
+			);
+			(amount0, amount1, mintAmount) = _computeMintAmounts(
+				totalSupply,
+				amount0Current,
+				amount1Current,
+				amount0Max,
+				amount1Max
+			);
+		} else {
+			Ticks memory ticks = baseTicks;
+			uint128 newLiquidity = _liquidityForAmounts(ticks, sqrtRatioX96, amount0Max, amount1Max);
+
+			mintAmount = uint256(newLiquidity);
+			(amount0, amount1) = _amountsForLiquidity(newLiquidity, ticks, sqrtRatioX96);
+		}
+	}
+
+	/// @notice Compute total underlying holdings of the Grizzly Vault token supply at
+	/// `sqrtRatioX96`, as in getUnderlyingBalances
+	function getUnderlyingBalancesAtPrice(
+		uint160 sqrtRatioX96
+	) external view returns (uint256 amount0Current, uint256 amount1Current) {
+		(, int24 tick, , , , , ) = pool.slot0();
+		return _getUnderlyingBalances(sqrtRatioX96, tick);
+	}
+
+	/// @notice Compute the fees earned by the positions and not collected yet, before manager fees
+	function estimateFees() external view returns (uint256 token0Fee, uint256 token1Fee) {
+		(uint160 sqrtRatioX96, int24 tick, , , , , ) = pool.slot0();
+		(, , token0Fee, token1Fee) = _getPositionsUnderlying(sqrtRatioX96, tick);
+	}
+
+	/// @notice Compute the amounts of token0 and token1 needed to mint `mintAmount`
+	/// @param mintAmount The number of Grizzly Vault tokens to mint
+	/// @return amount0 Amount of token0 that mint would transfer from msg.sender
+	/// @return amount1 Amount of token1 that mint would transfer from msg.sender
+	function previewMint(
+		uint256 mintAmount
+	) external view returns (uint256 amount0, uint256 amount1) {
+		return _previewMint(mintAmount, totalSupply() + _pendingManagementFeeShares(), false);
+	}
+
+	/// @notice Whether the pool observations cover the TWAP over oracleSlippageInterval,
+	/// until then the oracle checks revert
+	function isOracleReady() external view returns (bool) {
+		return Underlying.isOracleReady(pool, oracleSlippageInterval);
+	}
+
+	/// @notice Compute the amounts of token0 and token1 received for burning `burnAmount`
+	/// @dev Includes pending fees net of managerFee. Zap outs are simulated with a swap in the
+	/// pool reverted on callback, so this must be called statically (eth_call). The swap is
+	/// simulated with slippageUserMax before the liquidity of the burn is removed. Returns zeros
+	/// while there are no shares
+	/// @param burnAmount The number of Grizzly Vault tokens to burn
+	/// @param outputToken  If 0 zaps out with only token0, if 1 zaps out with only token 1,
+	/// if everything else it zaps out with both tokens
+	/// @return amount0 Expected amount of token0 received for burning `burnAmount`
+	/// @return amount1 Expected amount of token1 received for burning `burnAmount`
+	// solhint-disable-next-line function-max-lines
+	function previewBurn(
+		uint256 burnAmount,
+		uint8 outputToken
+	) external returns (uint256 amount0, uint256 amount1) {
+		uint256 totalSupply = totalSupply();
+		if (totalSupply == 0) return (0, 0);
+		totalSupply += _pendingManagementFeeShares();
+		(uint160 sqrtRatioX96, int24 tick, , , , , ) = pool.slot0();
+		(uint256 amount0Current, uint256 amount1Current) = _getUnderlyingBalances(
+			sqrtRatioX96,
+			tick
+		);
+
+		amount0 = FullMath.mulDiv(amount0Current, burnAmount, totalSupply);
+		amount1 = FullMath.mulDiv(amount1Current, burnAmount, totalSupply);
+
+		// No zap out swap after an emergency wind down
+		if (emergency) return (amount0, amount1);
+
+		int256 amount0Delta;
+		int256 amount1Delta;
+		(SwapAnchor anchor, int24 twapTick) = _getSwapAnchor();
+		if (outputToken == 0 && amount1 > 0) {
+			(amount0Delta, amount1Delta) = PoolActions.previewSwap(
+				pool,
+				amount1,
+				false,
+				slippageUserMax,
+				anchor,
+				twapTick
+			);
+		} else if (outputToken == 1 && amount0 > 0) {
+			(amount0Delta, amount1Delta) = PoolActions.previewSwap(
+				pool,
+				amount0,
+				true,
+				slippageUserMax,
+				anchor,
+				twapTick
+			);
+		}
+		amount0 = uint256(SafeCast.toInt256(amount0) - amount0Delta);
+		amount1 = uint256(SafeCast.toInt256(amount1) - amount1Delta);
+	}
+}
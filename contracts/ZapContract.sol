@@ -5,11 +5,13 @@ pragma solidity 0.8.18;
 import { IUniswapV3SwapCallback } from "@uniswap/v3-core/contracts/interfaces/callback/IUniswapV3SwapCallback.sol";
 import { IUniswapV3Pool } from "@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol";
 import { IGrizzlyVault } from "./interfaces/IGrizzlyVault.sol";
+import { IGrizzlyVaultStorage } from "./interfaces/IGrizzlyVaultStorage.sol";
+import { IWETH9 } from "./interfaces/IWETH9.sol";
 import { TickMath } from "./uniswap/TickMath.sol";
 import { IERC20, SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import { SafeCast } from "@openzeppelin/contracts/utils/math/SafeCast.sol";
-import { prbSqrt } from "@prb/math/src/Common.sol";
 import { LiquidityAmounts } from "./uniswap/LiquidityAmounts.sol";
+import { PoolMath } from "./libraries/PoolMath.sol";
 import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
 
 contract ZapContract is IUniswapV3SwapCallback, Ownable {
@@ -56,13 +58,26 @@ contract ZapContract is IUniswapV3SwapCallback, Ownable {
 
 	/* solhint-disable */
 	uint256 internal constant basisOne = 1000000;
-	uint256 internal constant basisOneSqrt = 1000;
 	/* solhint-enable */
 
 	// In bps, how much slippage we allow between swaps -> 5000 = 0.5% slippage
 	uint256 public slippageUserMax = 5000;
 
+	// Wrapped native token of the network, used by ETH zaps
+	IWETH9 public immutable weth;
+
 	event ZapInVault(address sender, address vault, uint256 shares);
+	event ZapOutVault(
+		address sender,
+		address vault,
+		uint256 shares,
+		uint256 amount0Out,
+		uint256 amount1Out
+	);
+
+	constructor(address _weth) {
+		weth = IWETH9(_weth);
+	}
 
 	// --- UniV3 callback functions --- //
 
@@ -82,7 +97,6 @@ contract ZapContract is IUniswapV3SwapCallback, Ownable {
 
 	// --- User functions --- //
 
-	// solhint-disable-next-line function-max-lines
 	function zapIn(
 		address pool,
 		address vault,
@@ -90,24 +104,192 @@ contract ZapContract is IUniswapV3SwapCallback, Ownable {
 		uint256 amount1Desired,
 		uint256 maxSwapSlippage
 	) external {
+		(IERC20 token0, IERC20 token1) = _checkZapIn(pool, vault, maxSwapSlippage);
+
+		if (amount0Desired > 0) // Transfer desired amounts to contract
+		{
+			token0.safeTransferFrom(msg.sender, address(this), amount0Desired);
+		}
+		if (amount1Desired > 0) {
+			token1.safeTransferFrom(msg.sender, address(this), amount1Desired);
+		}
+
+		uint256 mintAmount = _zapIn(
+			pool,
+			vault,
+			token0,
+			token1,
+			amount0Desired,
+			amount1Desired,
+			maxSwapSlippage
+		);
+
+		_transferUserLeftAmounts(token0, token1, msg.sender, false);
+
+		emit ZapInVault(msg.sender, vault, mintAmount);
+	}
+
+	/// @notice Same as zapIn for vaults paired with WETH, wrapping msg.value as the WETH amount
+	/// @dev Leftover WETH is unwrapped and sent back as ETH
+	/// @param pool Uniswap V3 pool of the vault
+	/// @param vault Grizzly Vault to deposit into, one of its tokens must be WETH
+	/// @param amountDesired Amount of the other token of the vault to transfer from msg.sender
+	/// @param maxSwapSlippage The maximum slippage authorized by user
+	function zapInETH(
+		address pool,
+		address vault,
+		uint256 amountDesired,
+		uint256 maxSwapSlippage
+	) external payable {
+		(IERC20 token0, IERC20 token1) = _checkZapIn(pool, vault, maxSwapSlippage);
+
+		(uint256 amount0Desired, uint256 amount1Desired) = _wrapETH(token0, token1, amountDesired);
+
+		uint256 mintAmount = _zapIn(
+			pool,
+			vault,
+			token0,
+			token1,
+			amount0Desired,
+			amount1Desired,
+			maxSwapSlippage
+		);
+
+		_transferUserLeftAmounts(token0, token1, msg.sender, true);
+
+		emit ZapInVault(msg.sender, vault, mintAmount);
+	}
+
+	/// @notice Mint `mintAmount` Grizzly Vault tokens of a vault paired with WETH, wrapping
+	/// msg.value as the WETH amount
+	/// @dev The amount of the other token is computed with previewMint and transferred from
+	/// msg.sender. The vault is approved for the previewed amounts only, and the approvals are
+	/// reset after the mint. Any ETH not needed for the mint is sent back
+	/// @param vault Grizzly Vault to deposit into, one of its tokens must be WETH
+	/// @param mintAmount The number of Grizzly Vault tokens to mint
+	/// @param receiver The account to receive the minted tokens
+	function mintETH(address vault, uint256 mintAmount, address receiver) external payable {
+		IERC20 token0 = IGrizzlyVault(vault).token0();
+		IERC20 token1 = IGrizzlyVault(vault).token1();
+
+		(uint256 amount0, uint256 amount1) = IGrizzlyVault(vault).previewMint(mintAmount);
+
+		bool isWETH0 = address(token0) == address(weth);
+		require(msg.value >= (isWETH0 ? amount0 : amount1), "not enough eth");
+
+		_wrapETH(token0, token1, isWETH0 ? amount1 : amount0);
+
+		token0.safeApprove(vault, amount0);
+		token1.safeApprove(vault, amount1);
+
+		IGrizzlyVault(vault).mint(mintAmount, receiver);
+
+		token0.safeApprove(vault, 0);
+		token1.safeApprove(vault, 0);
+
+		_transferUserLeftAmounts(token0, token1, msg.sender, true);
+
+		emit ZapInVault(msg.sender, vault, mintAmount);
+	}
+
+	/// @notice Burn Grizzly Vault tokens of msg.sender, unwrapping WETH to ETH for receiver
+	/// @dev The vault tokens are burned through burnWithPermit, so `sharesPermit` approving this
+	/// contract is only used if the allowance of msg.sender is not enough
+	/// @param vault Grizzly Vault to withdraw from, one of its tokens must be WETH
+	/// @param burnAmount The number of Grizzly Vault tokens to burn
+	/// @param maxSwapSlippage The maximum slippage authorized by user
+	/// @param outputToken  If 0 zaps out with only token0, if 1 zaps out with only token 1,
+	/// if everything else it zaps out with both tokens
+	/// @param receiver The account to receive ETH and the other token of the vault
+	/// @param sharesPermit EIP-2612 signature of msg.sender approving the vault tokens
+	function burnETH(
+		address vault,
+		uint256 burnAmount,
+		uint256 maxSwapSlippage,
+		uint8 outputToken,
+		address receiver,
+		IGrizzlyVault.PermitSignature calldata sharesPermit
+	) external {
+		IERC20 token0 = IGrizzlyVault(vault).token0();
+		IERC20 token1 = IGrizzlyVault(vault).token1();
+		require(
+			address(token0) == address(weth) || address(token1) == address(weth),
+			"not weth vault"
+		);
+
+		(uint256 amount0, uint256 amount1, ) = IGrizzlyVault(vault).burnWithPermit(
+			msg.sender,
+			burnAmount,
+			maxSwapSlippage,
+			outputToken,
+			address(this),
+			sharesPermit
+		);
+
+		_transferUserLeftAmounts(token0, token1, receiver, true);
+
+		emit ZapOutVault(msg.sender, vault, burnAmount, amount0, amount1);
+	}
+
+	/// @notice Only WETH can send ETH to the contract, when unwrapping
+	receive() external payable {
+		require(msg.sender == address(weth), "not weth");
+	}
+
+	// --- Internal core functions --- //
+
+	/// @notice Sanity checks of zap ins, returns the tokens of `vault`
+	function _checkZapIn(
+		address pool,
+		address vault,
+		uint256 maxSwapSlippage
+	) internal view returns (IERC20 token0, IERC20 token1) {
 		// Sanity check
 		require(address(IGrizzlyVault(vault).pool()) == pool, "wrong pool");
+		require(!IGrizzlyVault(vault).paused(), "paused");
 		require(maxSwapSlippage < basisOne, "max slippage too high");
 
+		token0 = IGrizzlyVault(vault).token0();
+		token1 = IGrizzlyVault(vault).token1();
+	}
+
+	/// @notice Wraps msg.value and transfers `amountDesired` of the other token from msg.sender
+	/// @return amount0Desired Amount of token0 available to deposit
+	/// @return amount1Desired Amount of token1 available to deposit
+	function _wrapETH(
+		IERC20 token0,
+		IERC20 token1,
+		uint256 amountDesired
+	) internal returns (uint256 amount0Desired, uint256 amount1Desired) {
+		if (address(token0) == address(weth)) {
+			(amount0Desired, amount1Desired) = (msg.value, amountDesired);
+			if (amountDesired > 0) token1.safeTransferFrom(msg.sender, address(this), amountDesired);
+		} else {
+			require(address(token1) == address(weth), "not weth vault");
+			(amount0Desired, amount1Desired) = (amountDesired, msg.value);
+			if (amountDesired > 0) token0.safeTransferFrom(msg.sender, address(this), amountDesired);
+		}
+
+		if (msg.value > 0) weth.deposit{ value: msg.value }();
+	}
+
+	/// @notice Balances the amounts held by the contract and mints the vault tokens to msg.sender
+	// solhint-disable-next-line function-max-lines
+	function _zapIn(
+		address pool,
+		address vault,
+		IERC20 token0,
+		IERC20 token1,
+		uint256 amount0Desired,
+		uint256 amount1Desired,
+		uint256 maxSwapSlippage
+	) internal returns (uint256) {
 		LocalVariablesZapIn memory vars;
 
 		IGrizzlyVault.Ticks memory ticks = IGrizzlyVault(vault).baseTicks();
 
-		vars.token0 = IGrizzlyVault(vault).token0();
-		vars.token1 = IGrizzlyVault(vault).token1();
-
-		if (amount0Desired > 0) // Transfer desired amounts to contract
-		{
-			vars.token0.safeTransferFrom(msg.sender, address(this), amount0Desired);
-		}
-		if (amount1Desired > 0) {
-			vars.token1.safeTransferFrom(msg.sender, address(this), amount1Desired);
-		}
+		vars.token0 = token0;
+		vars.token1 = token1;
 
 		vars.data = abi.encode(
 			CallbackData({ token0: address(vars.token0), token1: address(vars.token1), pool: pool })
@@ -115,6 +297,7 @@ contract ZapContract is IUniswapV3SwapCallback, Ownable {
 
 		(vars.intermediateAmount0, vars.intermediateAmount1) = _balanceAmounts(
 			pool,
+			vault,
 			ticks,
 			amount0Desired,
 			amount1Desired,
@@ -139,20 +322,18 @@ contract ZapContract is IUniswapV3SwapCallback, Ownable {
 
 		// Swap Dust Back
 		if (vars.balance0Zap > 0 && amount0Desired == 0) {
-			_swap(pool, vars.balance0Zap, true, maxSwapSlippage, vars.data);
+			_swap(pool, vault, vars.balance0Zap, true, maxSwapSlippage, vars.data);
 		} else if (vars.balance1Zap > 0 && amount1Desired == 0) {
-			_swap(pool, vars.balance1Zap, false, maxSwapSlippage, vars.data);
+			_swap(pool, vault, vars.balance1Zap, false, maxSwapSlippage, vars.data);
 		}
 
-		_transferUserLeftAmounts(vars.token0, vars.token1, msg.sender);
-
-		emit ZapInVault(msg.sender, vault, vars.mintAmount);
+		return vars.mintAmount;
 	}
 
-	// --- Internal core functions --- //
 	// solhint-disable-next-line function-max-lines
 	function _balanceAmounts(
 		address pool,
+		address vault,
 		IGrizzlyVault.Ticks memory ticks,
 		uint256 amount0Desired,
 		uint256 amount1Desired,
@@ -201,6 +382,7 @@ contract ZapContract is IUniswapV3SwapCallback, Ownable {
 		if (vars.amountSpecified > 0) {
 			(vars.amount0Delta, vars.amount1Delta) = _swap(
 				pool,
+				vault,
 				vars.amountSpecified,
 				vars.zeroForOne,
 				maxSwapSlippage,
@@ -214,8 +396,10 @@ contract ZapContract is IUniswapV3SwapCallback, Ownable {
 	}
 
 	/// @notice maxSwapSlippage variable as argument to have flexibility with different liquidity pools
+	/// @dev The price limit is derived from the price set by the swapAnchor of `vault`
 	function _swap(
 		address pool,
+		address vault,
 		uint256 amountIn,
 		bool zeroForOne,
 		uint256 maxSwapSlippage,
@@ -224,36 +408,65 @@ contract ZapContract is IUniswapV3SwapCallback, Ownable {
 		// If the maxSwapSlippage argument is not provided we use default slippageUserMax state variable
 		uint256 _slippageMax = maxSwapSlippage == 0 ? slippageUserMax : maxSwapSlippage;
 
-		(uint160 _sqrtPriceX96, , , , , , ) = IUniswapV3Pool(pool).slot0();
-		uint256 _slippageSqrt = zeroForOne
-			? prbSqrt(basisOne - _slippageMax)
-			: prbSqrt(basisOne + _slippageMax);
-
 		return
 			IUniswapV3Pool(pool).swap(
 				address(this),
 				zeroForOne, // Swap direction, true: token0 -> token1, false: token1 -> token0
 				int256(amountIn),
-				uint160(uint256((_sqrtPriceX96 * _slippageSqrt) / basisOneSqrt)), // sqrtPriceLimitX96
+				_getSqrtPriceLimit(pool, vault, zeroForOne, _slippageMax),
 				data
 			);
 	}
 
-	function _transferUserLeftAmounts(IERC20 token0, IERC20 token1, address receiver) internal {
-		uint256 token0Balance = token0.balanceOf(address(this));
-		uint256 token1Balance = token1.balanceOf(address(this));
+	/// @notice Transfers the contract balances to `receiver`, unwrapping WETH if `unwrapWETH`
+	function _transferUserLeftAmounts(
+		IERC20 token0,
+		IERC20 token1,
+		address receiver,
+		bool unwrapWETH
+	) internal {
+		_transferLeftAmount(token0, receiver, unwrapWETH);
+		_transferLeftAmount(token1, receiver, unwrapWETH);
+	}
 
-		if (token0Balance > 0) {
-			token0.safeTransfer(receiver, token0Balance);
-		}
+	function _transferLeftAmount(IERC20 token, address receiver, bool unwrapWETH) internal {
+		uint256 balance = token.balanceOf(address(this));
+
+		if (balance == 0) return;
 
-		if (token1Balance > 0) {
-			token1.safeTransfer(receiver, token1Balance);
+		if (unwrapWETH && address(token) == address(weth)) {
+			weth.withdraw(balance);
+			// solhint-disable-next-line avoid-low-level-calls
+			(bool success, ) = receiver.call{ value: balance }("");
+			require(success, "eth transfer failed");
+		} else {
+			token.safeTransfer(receiver, balance);
 		}
 	}
 
 	// --- Internal view functions --- //
 
+	/// @notice Computes the sqrtPriceLimitX96 of a swap, anchored as in the PoolActions swaps
+	/// of `vault`
+	function _getSqrtPriceLimit(
+		address pool,
+		address vault,
+		bool zeroForOne,
+		uint256 slippageMax
+	) internal view returns (uint160) {
+		IGrizzlyVaultStorage.SwapAnchor anchor = IGrizzlyVault(vault).swapAnchor();
+		int24 twapTick;
+		if (anchor != IGrizzlyVaultStorage.SwapAnchor.Spot) {
+			twapTick = PoolMath.getTwapTick(
+				IUniswapV3Pool(pool),
+				IGrizzlyVault(vault).oracleSlippageInterval()
+			);
+		}
+		(uint160 sqrtPriceX96, , , , , , ) = IUniswapV3Pool(pool).slot0();
+
+		return PoolMath.getSqrtPriceLimit(sqrtPriceX96, twapTick, anchor, zeroForOne, slippageMax);
+	}
+
 	/// @notice Computes the token0 and token1 value for a given amount of liquidity
 	function _amountsForLiquidity(
 		uint128 liquidity,
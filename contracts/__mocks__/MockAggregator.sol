@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.18;
+
+import { IAggregatorV3 } from "../interfaces/IAggregatorV3.sol";
+
+/// @notice Chainlink style price feed with a settable answer
+contract MockAggregator is IAggregatorV3 {
+	uint8 public immutable decimals;
+
+	uint80 public roundId;
+	int256 public answer;
+	uint256 public updatedAt;
+
+	constructor(uint8 _decimals, int256 _answer) {
+		decimals = _decimals;
+		setAnswer(_answer);
+	}
+
+	/// @notice Publishes a new answer updated at the current timestamp
+	function setAnswer(int256 _answer) public {
+		roundId++;
+		answer = _answer;
+		// solhint-disable-next-line not-rely-on-time
+		updatedAt = block.timestamp;
+	}
+
+	/// @notice Overrides the update timestamp of the answer, to simulate stale feeds
+	function setUpdatedAt(uint256 _updatedAt) external {
+		updatedAt = _updatedAt;
+	}
+
+	function latestRoundData() external view returns (uint80, int256, uint256, uint256, uint80) {
+		return (roundId, answer, updatedAt, updatedAt, roundId);
+	}
+}
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.18;
+
+import { IGrizzlyStrategy } from "../interfaces/IGrizzlyStrategy.sol";
+
+/// @dev Settings shared by the reference Grizzly strategies
+abstract contract GrizzlyStrategyBase is IGrizzlyStrategy {
+	/// @notice Maximum price move allowed by the swaps of the strategy rebalances
+	uint24 public immutable maxSwapSlippage;
+
+	constructor(uint24 _maxSwapSlippage) {
+		require(_maxSwapSlippage <= 1000000, "slippage too high");
+		maxSwapSlippage = _maxSwapSlippage;
+	}
+}
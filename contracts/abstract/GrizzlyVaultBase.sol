@@ -0,0 +1,365 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.18;
+
+import { GrizzlyVaultStorage } from "./GrizzlyVaultStorage.sol";
+import { IERC20, SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { Underlying } from "../libraries/Underlying.sol";
+import { PoolActions } from "../libraries/PoolActions.sol";
+import { FullMath } from "../uniswap/FullMath.sol";
+import { SafeCast } from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import { IGrizzlyVaultFactory } from "../interfaces/IGrizzlyVaultFactory.sol";
+
+/// @dev Events and internal functions shared by GrizzlyVault and its delegates,
+/// GrizzlyVaultExtension, GrizzlyVaultSettings and GrizzlyVaultViews. The delegates run on the
+/// vault storage, so none of the four may declare state variables of its own
+abstract contract GrizzlyVaultBase is GrizzlyVaultStorage {
+	using SafeERC20 for IERC20;
+
+	event Rebalance(
+		int24 lowerTick_,
+		int24 upperTick_,
+		uint128 liquidityBefore,
+		uint128 liquidityAfter,
+		int24 limitLowerTick_,
+		int24 limitUpperTick_,
+		uint128 limitLiquidity
+	);
+
+	event Minted(
+		address receiver,
+		uint256 mintAmount,
+		uint256 amount0In,
+		uint256 amount1In,
+		uint128 liquidityMinted
+	);
+
+	event Burned(
+		address receiver,
+		uint256 burnAmount,
+		uint256 amount0Out,
+		uint256 amount1Out,
+		uint128 liquidityBurned
+	);
+
+	event FeesEarned(uint256 feesEarned0, uint256 feesEarned1, uint256 bounty0, uint256 bounty1);
+
+	// --- Internal core functions --- //
+
+	function _withdraw(
+		Ticks memory ticks,
+		uint128 liquidity
+	) internal returns (uint256 burn0, uint256 burn1, uint256 fee0, uint256 fee1) {
+		return PoolActions.withdraw(pool, token0, token1, ticks, liquidity);
+	}
+
+	/// @notice Withdraws the whole limit position, its tokens are left idle in the vault
+	/// @dev The fees are not applied, callers apply them with the base position fees
+	/// @return fee0 Fees of token0 earned by the limit position
+	/// @return fee1 Fees of token1 earned by the limit position
+	function _withdrawLimit() internal returns (uint256 fee0, uint256 fee1) {
+		Ticks memory ticks = limitTicks;
+		if (ticks.lowerTick == ticks.upperTick) return (0, 0);
+
+		(uint128 liquidity, , , , ) = pool.positions(_getPositionID(ticks));
+		if (liquidity > 0) (, , fee0, fee1) = _withdraw(ticks, liquidity);
+
+		delete limitTicks;
+	}
+
+	/// @notice Swaps part of the amounts to match the position ratio, see PoolActions
+	function _balanceAmounts(
+		Ticks memory ticks,
+		uint256 amount0Desired,
+		uint256 amount1Desired,
+		uint256 slippageMax
+	) internal returns (uint256 finalAmount0, uint256 finalAmount1) {
+		(SwapAnchor anchor, int24 twapTick) = _getSwapAnchor();
+		return
+			PoolActions.balanceAmounts(
+				pool,
+				ticks,
+				amount0Desired,
+				amount1Desired,
+				slippageMax == 0 ? slippageUserMax : slippageMax,
+				anchor,
+				twapTick
+			);
+	}
+
+	function _addLiquidity(
+		Ticks memory ticks,
+		uint256 amount0,
+		uint256 amount1
+	) internal returns (uint128 liquidityAfterSwap) {
+		// As we have made a swap in the pool sqrtRatioX96 changes
+		(uint160 sqrtRatioX96, , , , , , ) = pool.slot0();
+
+		liquidityAfterSwap = _liquidityForAmounts(ticks, sqrtRatioX96, amount0, amount1);
+
+		if (liquidityAfterSwap > 0) {
+			pool.mint(address(this), ticks.lowerTick, ticks.upperTick, liquidityAfterSwap, "");
+		}
+	}
+
+	/// @notice slippageMax variable as argument to differentiate between user and rebalance swaps
+	function _swap(
+		uint256 amountIn,
+		bool zeroForOne,
+		uint256 slippageMax
+	) internal returns (int256, int256) {
+		(SwapAnchor anchor, int24 twapTick) = _getSwapAnchor();
+		return
+			PoolActions.swap(
+				pool,
+				amountIn,
+				zeroForOne,
+				slippageMax == 0 ? slippageUserMax : slippageMax,
+				anchor,
+				twapTick
+			);
+	}
+
+	function _transferAmounts(uint256 amount0, uint256 amount1, address receiver) internal {
+		if (amount0 > 0) {
+			token0.safeTransfer(receiver, amount0);
+		}
+
+		if (amount1 > 0) {
+			token1.safeTransfer(receiver, amount1);
+		}
+	}
+
+	/// @notice Mints to managerTreasury the management fee shares accrued since last accrual
+	/// @dev Called before any change of the total supply, no fee accrues after a wind down
+	function _accrueManagementFee() internal {
+		// solhint-disable-next-line not-rely-on-time
+		if (block.timestamp == lastManagementFeeAccrual) return;
+
+		uint256 feeShares = _pendingManagementFeeShares();
+		// solhint-disable-next-line not-rely-on-time
+		lastManagementFeeAccrual = block.timestamp;
+		if (feeShares == 0) return;
+
+		_mint(managerTreasury, feeShares);
+		emit ManagementFeeAccrued(managerTreasury, feeShares);
+	}
+
+	/// @notice Management fee shares accrued since last accrual, minted before the next change
+	/// of the total supply
+	function _pendingManagementFeeShares() internal view returns (uint256) {
+		if (managementFee == 0 || emergency) return 0;
+
+		return
+			FullMath.mulDiv(
+				totalSupply(),
+				// solhint-disable-next-line not-rely-on-time
+				managementFee * (block.timestamp - lastManagementFeeAccrual),
+				uint256(basisOne) * YEAR
+			);
+	}
+
+	/// @notice Credits the fee cut to the manager and protocol balances
+	/// @dev The protocol gets the factory protocolFee share of the fee cut, LPs are not affected
+	function _applyFees(
+		uint256 rawFee0,
+		uint256 rawFee1
+	) internal returns (uint256 fee0, uint256 fee1) {
+		return _applyFees(rawFee0, rawFee1, 0, 0);
+	}
+
+	/// @dev `bounty0` and `bounty1` are paid to the keeper out of the fees, before the fee cut
+	function _applyFees(
+		uint256 rawFee0,
+		uint256 rawFee1,
+		uint256 bounty0,
+		uint256 bounty1
+	) internal returns (uint256 fee0, uint256 fee1) {
+		rawFee0 -= bounty0;
+		rawFee1 -= bounty1;
+
+		uint256 managerFee0 = (rawFee0 * managerFee) / basisOne;
+		uint256 managerFee1 = (rawFee1 * managerFee) / basisOne;
+
+		uint24 protocolFee = IGrizzlyVaultFactory(grizzlyFactory).protocolFee();
+		uint256 protocolFee0 = (managerFee0 * protocolFee) / basisOne;
+		uint256 protocolFee1 = (managerFee1 * protocolFee) / basisOne;
+
+		protocolBalance0 += protocolFee0;
+		protocolBalance1 += protocolFee1;
+
+		managerBalance0 += managerFee0 - protocolFee0;
+		managerBalance1 += managerFee1 - protocolFee1;
+
+		fee0 = rawFee0 - managerFee0;
+		fee1 = rawFee1 - managerFee1;
+
+		emit FeesEarned(fee0, fee1, bounty0, bounty1);
+	}
+
+	/// @notice Records the current share value as the circuit breaker reference, if enabled
+	function _recordShareValue() internal {
+		CircuitBreaker storage breaker = circuitBreaker;
+		if (breaker.deviation == 0) return;
+
+		(uint160 sqrtRatioX96, int24 tick, , , , , ) = pool.slot0();
+		(uint256 amount0, uint256 amount1) = _getUnderlyingBalances(sqrtRatioX96, tick);
+		breaker.value = Underlying.getShareValue(amount0, amount1, totalSupply(), sqrtRatioX96);
+	}
+
+	// --- Internal view functions --- //
+
+	/// @notice Reverts if the circuit breaker is tripped or if the share value at the current
+	/// pool price and balances deviates from the reference, see _checkShareValue
+	function _checkCircuitBreaker() internal view {
+		_checkNotTripped();
+		if (circuitBreaker.deviation == 0) return;
+
+		(uint160 sqrtRatioX96, int24 tick, , , , , ) = pool.slot0();
+		(uint256 amount0, uint256 amount1) = _getUnderlyingBalances(sqrtRatioX96, tick);
+		_checkShareValue(amount0, amount1, totalSupply(), sqrtRatioX96);
+	}
+
+	/// @notice Reverts if the share value deviates more than the circuit breaker deviation from
+	/// the reference, see Underlying.isShareValueDeviated
+	/// @dev Does not trip the circuit breaker, trips are recorded by checkCircuitBreaker
+	function _checkShareValue(
+		uint256 amount0,
+		uint256 amount1,
+		uint256 totalSupply,
+		uint160 sqrtRatioX96
+	) internal view {
+		(bool deviated, ) = Underlying.isShareValueDeviated(
+			circuitBreaker,
+			amount0,
+			amount1,
+			totalSupply,
+			sqrtRatioX96
+		);
+		require(!deviated, "circuit breaker");
+	}
+
+	function _getUnderlyingBalances(
+		uint160 sqrtRatioX96,
+		int24 tick
+	) internal view returns (uint256 amount0Current, uint256 amount1Current) {
+		uint256 fee0;
+		uint256 fee1;
+		(amount0Current, amount1Current, fee0, fee1) = _getPositionsUnderlying(sqrtRatioX96, tick);
+
+		fee0 = (fee0 * (basisOne - managerFee)) / basisOne;
+		fee1 = (fee1 * (basisOne - managerFee)) / basisOne;
+
+		// Add any leftover in contract to current holdings
+		(uint256 idle0, uint256 idle1) = _idleBalances();
+		amount0Current += fee0 + idle0;
+		amount1Current += fee1 + idle1;
+	}
+
+	/// @notice Balances of the vault not owed to the manager nor the protocol
+	function _idleBalances() internal view returns (uint256 idle0, uint256 idle1) {
+		idle0 = token0.balanceOf(address(this)) - managerBalance0 - protocolBalance0;
+		idle1 = token1.balanceOf(address(this)) - managerBalance1 - protocolBalance1;
+	}
+
+	/// @notice Sums the tokens held and the fees earned by the base and limit positions
+	function _getPositionsUnderlying(
+		uint160 sqrtRatioX96,
+		int24 tick
+	) internal view returns (uint256 amount0, uint256 amount1, uint256 fee0, uint256 fee1) {
+		return Underlying.getPositionsUnderlying(pool, baseTicks, limitTicks, sqrtRatioX96, tick);
+	}
+
+	/// @notice Computes the token0 and token1 value for a given amount of liquidity
+	function _amountsForLiquidity(
+		uint128 liquidity,
+		Ticks memory ticks,
+		uint160 sqrtRatioX96
+	) internal view returns (uint256, uint256) {
+		return Underlying.amountsForLiquidity(liquidity, ticks, sqrtRatioX96);
+	}
+
+	/// @notice Gets the liquidity for the available amounts of token0 and token1
+	function _liquidityForAmounts(
+		Ticks memory ticks,
+		uint160 sqrtRatioX96,
+		uint256 amount0,
+		uint256 amount1
+	) internal view returns (uint128) {
+		return Underlying.liquidityForAmounts(ticks, sqrtRatioX96, amount0, amount1);
+	}
+
+	function _checkPriceSlippage() internal view {
+		Underlying.checkPriceSlippage(pool, oracleSlippageInterval, oracleSlippage, priceFeeds);
+	}
+
+	/// @notice Reverts if userOracleSlippage is set and the pool price deviates more from the
+	/// oracle price
+	function _checkUserPriceSlippage() internal view {
+		uint24 slippage = userOracleSlippage;
+		if (slippage == 0) return;
+		require(
+			Underlying.isPriceNearOracle(pool, oracleSlippageInterval, slippage, priceFeeds),
+			"price deviation"
+		);
+	}
+
+	/// @notice TWAP tick over oracleSlippageInterval, as used by _checkPriceSlippage
+	function _getTwapTick() internal view returns (int24) {
+		return Underlying.getTwapTick(pool, oracleSlippageInterval);
+	}
+
+	/// @notice Anchor of the swap price limits, with the TWAP tick only computed if used
+	function _getSwapAnchor() internal view returns (SwapAnchor anchor, int24 twapTick) {
+		anchor = swapAnchor;
+		if (anchor != SwapAnchor.Spot) twapTick = _getTwapTick();
+	}
+
+	/// @notice Amounts of token0 and token1 needed to mint `mintAmount` out of `totalSupply`
+	/// @dev Mints also check the circuit breaker on the balances computed here, see
+	/// _checkShareValue
+	function _previewMint(
+		uint256 mintAmount,
+		uint256 totalSupply,
+		bool checkShareValue
+	) internal view returns (uint256 amount0, uint256 amount1) {
+		(uint160 sqrtRatioX96, int24 tick, , , , , ) = pool.slot0();
+
+		if (totalSupply > 0) {
+			(uint256 amount0Current, uint256 amount1Current) = _getUnderlyingBalances(
+				sqrtRatioX96,
+				tick
+			);
+			if (checkShareValue) {
+				_checkShareValue(amount0Current, amount1Current, totalSupply, sqrtRatioX96);
+			}
+
+			amount0 = FullMath.mulDivRoundingUp(amount0Current, mintAmount, totalSupply);
+			amount1 = FullMath.mulDivRoundingUp(amount1Current, mintAmount, totalSupply);
+		} else {
+			// If supply is 0 mintAmount == liquidity to deposit
+			(amount0, amount1) = _amountsForLiquidity(
+				SafeCast.toUint128(mintAmount),
+				baseTicks,
+				sqrtRatioX96
+			);
+		}
+	}
+
+	/// @notice Computes the shares and amounts of a mint of at most `amount0Max` and `amount1Max`
+	function _computeMintAmounts(
+		uint256 totalSupply,
+		uint256 amount0Current,
+		uint256 amount1Current,
+		uint256 amount0Max,
+		uint256 amount1Max
+	) internal pure returns (uint256, uint256, uint256) {
+		return
+			Underlying.computeMintAmounts(
+				totalSupply,
+				amount0Current,
+				amount1Current,
+				amount0Max,
+				amount1Max
+			);
+	}
+}
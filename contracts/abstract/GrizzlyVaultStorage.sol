@@ -8,17 +8,18 @@ import { TickMath } from "../uniswap/TickMath.sol";
 import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 // solhint-disable max-line-length
 import { ReentrancyGuardUpgradeable } from "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
-import { ERC20Upgradeable } from "@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol";
+import { ERC20PermitUpgradeable } from "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/draft-ERC20PermitUpgradeable.sol";
 // solhint-enable max-line-length
 import { IGrizzlyVaultStorage } from "../interfaces/IGrizzlyVaultStorage.sol";
+import { IGrizzlyVaultFactory } from "../interfaces/IGrizzlyVaultFactory.sol";
 
 /// @dev Single Global upgradeable state var storage base
 /// @dev Add all inherited contracts with state vars here
-/// @dev ERC20Upgradable Includes Initialize
+/// @dev ERC20PermitUpgradable Includes Initialize
 // solhint-disable-next-line max-states-count
 abstract contract GrizzlyVaultStorage is
 	IGrizzlyVaultStorage,
-	ERC20Upgradeable,
+	ERC20PermitUpgradeable,
 	ReentrancyGuardUpgradeable,
 	OwnableUninitialized
 {
@@ -44,6 +45,12 @@ abstract contract GrizzlyVaultStorage is
 	uint32 internal constant MIN_INITIAL_SHARES = 1e9;
 	uint24 internal constant basisOne = 1000000;
 	uint16 internal constant basisOneSqrt = 1000;
+	uint32 internal constant YEAR = 365 days;
+	uint24 internal constant MAX_MANAGEMENT_FEE = 50000; // 5% per year
+	uint32 internal constant MANAGER_FEE_DELAY = 3 days;
+	uint32 internal constant MAX_CONFIG_DELAY = 30 days;
+	uint32 internal constant CONFIG_GRACE_PERIOD = 14 days;
+	uint24 internal constant MAX_KEEPER_BOUNTY = 100000; // 10% of the fees
 	/* solhint-enable */
 
 	// How much slippage we allow between swaps -> 5000 = 0.5% slippage
@@ -54,11 +61,134 @@ abstract contract GrizzlyVaultStorage is
 
 	address public keeperAddress;
 
+	// Roles granted by the manager, the manager is implicitly allowed everything
+	bytes32 public constant KEEPER_ROLE = keccak256("KEEPER_ROLE");
+	bytes32 public constant STRATEGIST_ROLE = keccak256("STRATEGIST_ROLE");
+	bytes32 public constant TREASURY_ROLE = keccak256("TREASURY_ROLE");
+
+	// Optional single-sided position where rebalance leftovers are parked, 0 width disables it
+	Ticks public limitTicks;
+	int24 public limitWidth;
+
+	// Emergency controls, guardian can pause mints and wind down the vault as the manager
+	address public guardian;
+	bool public paused;
+	bool public emergency;
+
+	// Annualised fee on the vault shares, minted to managerTreasury -> 10000 = 1% per year
+	uint24 public managementFee;
+	uint256 public lastManagementFeeAccrual;
+
+	// GrizzlyVaultFactory that cloned the vault, sets the protocol share of the fee cut
+	address public grizzlyFactory;
+	uint256 public protocolBalance0;
+	uint256 public protocolBalance1;
+
+	// Manager fee increase waiting for its notice period, applicable from the timestamp
+	uint24 public pendingManagerFee;
+	uint256 public pendingManagerFeeTimestamp;
+
+	// Timelock of manager configuration changes, 0 applies them immediately
+	uint32 public configDelay;
+	mapping(bytes32 => uint256) public configQueue; // keccak256 of the calldata => ETA
+
+	mapping(bytes32 => mapping(address => bool)) public hasRole;
+	// Strategist executive rebalances must stay within this many ticks of the current tick
+	int24 public strategistTickRange;
+
+	// Share of the fees compounded by rebalance paid to the caller -> 10000 = 1% of the fees
+	uint24 public keeperBounty;
+	// Anyone can rebalance once this many seconds passed since the last rebalance, 0 disables it
+	uint32 public publicRebalanceInterval;
+	uint256 public lastRebalance; // Timestamp of the last rebalance or compound
+
+	// Anyone can compound once this many seconds passed since the last rebalance, 0 disables it
+	uint32 public compoundInterval;
+	// Compound requires the fees earned to be above one of these thresholds
+	uint256 public compoundThreshold0;
+	uint256 public compoundThreshold1;
+
+	// Recenter strategy, range width in tick spacings (0 disables it), distance in ticks of the
+	// TWAP from the range center that triggers a recenter, and minimum seconds between recenters
+	int24 public recenterWidth;
+	int24 public recenterTrigger;
+	uint32 public recenterInterval;
+	uint256 public lastRecenter;
+
+	// IGrizzlyStrategy contract returning the ranges of strategy rebalances, 0 disables them
+	address public strategy;
+
+	// Price the limits of vault swaps are derived from, pool price by default
+	SwapAnchor public swapAnchor;
+
+	// Maximum deviation of the pool price from the TWAP on user mints and burns, 0 disables it
+	uint24 public userOracleSlippage;
+
+	// External price feeds compared to the pool price by the oracle check instead of the TWAP
+	PriceFeeds public priceFeeds;
+
+	// Mints and rebalances revert while the share value deviates from the reference, and once
+	// tripped until the manager resets it. The reference is recorded on rebalances and resets
+	CircuitBreaker public circuitBreaker;
+
 	event UpdateGrizzlyParams(uint24 oracleSlippage, uint32 oracleSlippageInterval);
 	event SetManagerFee(uint24 managerFee);
+	event ManagerFeeQueued(uint24 managerFee, uint256 timestamp);
+	event SetConfigDelay(uint32 configDelay);
+	event ConfigQueued(bytes32 indexed id, bytes data, uint256 eta);
+	event ConfigCancelled(bytes32 indexed id);
+	event ConfigExecuted(bytes32 indexed id);
+	event SetLimitWidth(int24 limitWidth);
+	event SetGuardian(address guardian);
+	event SetPaused(bool paused);
+	event EmergencyWindDown(uint256 amount0, uint256 amount1);
+	event SetManagementFee(uint24 managementFee);
+	event ManagementFeeAccrued(address treasury, uint256 feeShares);
+	event ProtocolBalanceWithdrawn(address treasury, uint256 amount0, uint256 amount1);
+	event RoleGranted(bytes32 indexed role, address indexed account);
+	event RoleRevoked(bytes32 indexed role, address indexed account);
+	event SetStrategistTickRange(int24 strategistTickRange);
+	event SetKeeperBounty(uint24 keeperBounty, uint32 publicRebalanceInterval);
+	event SetRecenterParams(int24 recenterWidth, int24 recenterTrigger, uint32 recenterInterval);
+	event SetStrategy(address strategy);
+	event SetSwapAnchor(SwapAnchor swapAnchor);
+	event SetUserOracleSlippage(uint24 userOracleSlippage);
+	event SetPriceFeeds(address feed0, address feed1, uint32 heartbeat);
+	event SetShareValueDeviation(uint24 shareValueDeviation);
+	event CircuitBreakerTripped(uint256 value);
+	event CircuitBreakerReset(uint256 value);
+	event SetCompoundParams(
+		uint32 compoundInterval,
+		uint256 compoundThreshold0,
+		uint256 compoundThreshold1
+	);
 
+	/// @dev Manager, keeperAddress or any account with the KEEPER_ROLE
 	modifier onlyAuthorized() {
-		require(msg.sender == manager() || msg.sender == keeperAddress, "not authorized");
+		require(_isKeeper(msg.sender), "not authorized");
+		_;
+	}
+
+	/// @dev Manager or any account with `role`
+	modifier onlyRole(bytes32 role) {
+		require(msg.sender == manager() || hasRole[role][msg.sender], "not authorized");
+		_;
+	}
+
+	modifier whenNotPaused() {
+		_checkNotPaused();
+		_;
+	}
+	modifier onlyGuardian() {
+		require(msg.sender == manager() || msg.sender == guardian, "not guardian");
+		_;
+	}
+
+	/// @dev While configDelay is not 0 the call must have been queued with the same calldata
+	/// through queueConfig, and can only be executed once its ETA is reached and at most
+	/// CONFIG_GRACE_PERIOD after it
+	modifier timelocked() {
+		_checkTimelock();
 		_;
 	}
 
@@ -80,7 +210,7 @@ abstract contract GrizzlyVaultStorage is
 		int24 _upperTick,
 		address _manager_
 	) external override initializer {
-		require(_managerFee <= basisOne, "fee too high");
+		require(_managerFee <= IGrizzlyVaultFactory(msg.sender).maxManagerFee(), "fee too high");
 
 		require(_validateTickSpacing(_pool, _lowerTick, _upperTick), "tickSpacing mismatch");
 
@@ -98,6 +228,9 @@ abstract contract GrizzlyVaultStorage is
 		oracleSlippage = 5000; // default: 0.5% slippage
 
 		managerTreasury = _manager_; // default: treasury is admin
+		grizzlyFactory = msg.sender;
+		// solhint-disable-next-line not-rely-on-time
+		lastManagementFeeAccrual = block.timestamp; // management fee is 0 until set by manager
 
 		baseTicks.lowerTick = _lowerTick;
 		baseTicks.upperTick = _upperTick;
@@ -106,35 +239,10 @@ abstract contract GrizzlyVaultStorage is
 
 		// e.g. "Grizzly Uniswap USDC/DAI LP" and "hsUSDC-DAI"
 		__ERC20_init(_name, _symbol);
+		__ERC20Permit_init(_name);
 		__ReentrancyGuard_init();
 	}
 
-	/// @notice Change configurable parameters, only manager can call
-	/// @param newOracleSlippage Maximum slippage on swaps during Grizzly rebalance
-	/// @param newOracleSlippageInterval Length of time for TWAP used in computing slippage on swaps
-	/// @param newTreasury Address where managerFee withdrawals are sent
-	function updateConfigParams(
-		uint24 newOracleSlippage,
-		uint32 newOracleSlippageInterval,
-		address newTreasury
-	) external onlyManager {
-		require(newOracleSlippage <= basisOne, "slippage too high");
-
-		if (newOracleSlippage != 0) oracleSlippage = newOracleSlippage;
-		if (newOracleSlippageInterval != 0) oracleSlippageInterval = newOracleSlippageInterval;
-		emit UpdateGrizzlyParams(newOracleSlippage, newOracleSlippageInterval);
-
-		if (newTreasury != address(0)) managerTreasury = newTreasury;
-	}
-
-	/// @notice setManagerFee sets a managerFee, only manager can call
-	/// @param _managerFee Proportion of fees earned that are credited to manager in Basis Points
-	function setManagerFee(uint24 _managerFee) external onlyManager {
-		require(_managerFee > 0 && _managerFee <= basisOne, "invalid manager fee");
-		emit SetManagerFee(_managerFee);
-		managerFee = _managerFee;
-	}
-
 	function getPositionID() external view returns (bytes32 positionID) {
 		return _getPositionID(baseTicks);
 	}
@@ -143,18 +251,30 @@ abstract contract GrizzlyVaultStorage is
 		return keccak256(abi.encodePacked(address(this), _ticks.lowerTick, _ticks.upperTick));
 	}
 
-	function setKeeperAddress(address _keeperAddress) external onlyManager {
-		require(_keeperAddress != address(0), "zeroAddress");
-		keeperAddress = _keeperAddress;
+	function _isKeeper(address account) internal view returns (bool) {
+		return account == manager() || account == keeperAddress || hasRole[KEEPER_ROLE][account];
+	}
+
+	function _checkNotPaused() internal view {
+		require(!paused, "paused");
 	}
 
-	function setManagerParams(
-		uint24 _slippageUserMax,
-		uint24 _slippageRebalanceMax
-	) external onlyManager {
-		require(_slippageUserMax <= basisOne && _slippageRebalanceMax <= basisOne, "wrong inputs");
-		slippageUserMax = _slippageUserMax;
-		slippageRebalanceMax = _slippageRebalanceMax;
+	function _checkNotTripped() internal view {
+		require(!circuitBreaker.tripped, "circuit breaker");
+	}
+
+	function _checkTimelock() internal {
+		if (configDelay == 0) return;
+
+		bytes32 id = keccak256(msg.data);
+		uint256 eta = configQueue[id];
+		// solhint-disable-next-line not-rely-on-time
+		require(eta != 0 && block.timestamp >= eta, "timelocked");
+		// solhint-disable-next-line not-rely-on-time
+		require(block.timestamp <= eta + CONFIG_GRACE_PERIOD, "config expired");
+
+		delete configQueue[id];
+		emit ConfigExecuted(id);
 	}
 
 	function _validateTickSpacing(
@@ -7,7 +7,7 @@ pragma solidity 0.8.18;
  * specific functions.
  *
  * By default, the manager account will be the one that deploys the contract. This
- * can later be changed with {transferOwnership}.
+ * can later be changed with {transferOwnership} and {acceptOwnership}.
  *
  * This module is used through inheritance. It will make available the modifier
  * `onlyManager`, which can be applied to your functions to restrict their use to
@@ -16,7 +16,9 @@ pragma solidity 0.8.18;
 
 abstract contract OwnableUninitialized {
 	address internal _manager;
+	address internal _pendingManager;
 
+	event OwnershipTransferStarted(address indexed previousManager, address indexed newManager);
 	event OwnershipTransferred(address indexed previousManager, address indexed newManager);
 
 	/// @dev Initializes the contract setting the deployer as the initial manager.
@@ -31,14 +33,28 @@ abstract contract OwnableUninitialized {
 		return _manager;
 	}
 
+	/**
+	 * @dev Returns the address of the pending manager.
+	 */
+	function pendingManager() public view virtual returns (address) {
+		return _pendingManager;
+	}
+
 	/**
 	 * @dev Throws if called by any account other than the manager.
 	 */
 	modifier onlyManager() {
-		require(manager() == msg.sender, "Ownable: caller is not the manager");
+		_checkManager();
 		_;
 	}
 
+	/**
+	 * @dev Throws if the sender is not the manager.
+	 */
+	function _checkManager() internal view virtual {
+		require(manager() == msg.sender, "Ownable: caller is not the manager");
+	}
+
 	/**
 	 * @dev Leaves the contract without manager. It will not be possible to call
 	 * `onlyManager` functions anymore. Can only be called by the current manager.
@@ -49,16 +65,28 @@ abstract contract OwnableUninitialized {
 	function renounceOwnership() public virtual onlyManager {
 		emit OwnershipTransferred(_manager, address(0));
 		_manager = address(0);
+		delete _pendingManager;
 	}
 
 	/**
-	 * @dev Transfers ownership of the contract to a new account (`newOwner`).
-	 * Can only be called by the current manager.
+	 * @dev Starts the ownership transfer of the contract to a new account (`newOwner`).
+	 * The new manager has to call {acceptOwnership} to complete it, a pending transfer
+	 * is replaced by a new call. Can only be called by the current manager.
 	 */
 	function transferOwnership(address newOwner) public virtual onlyManager {
 		require(newOwner != address(0), "Ownable: new manager is the zero address");
-		emit OwnershipTransferred(_manager, newOwner);
-		_manager = newOwner;
+		_pendingManager = newOwner;
+		emit OwnershipTransferStarted(_manager, newOwner);
+	}
+
+	/**
+	 * @dev The pending manager accepts the ownership transfer.
+	 */
+	function acceptOwnership() public virtual {
+		require(_pendingManager == msg.sender, "Ownable: caller is not the new manager");
+		emit OwnershipTransferred(_manager, msg.sender);
+		_manager = msg.sender;
+		delete _pendingManager;
 	}
 }
 
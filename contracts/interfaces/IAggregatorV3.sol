@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.18;
+
+/// @notice Subset of the Chainlink AggregatorV3Interface read by the vault oracle check
+interface IAggregatorV3 {
+	function decimals() external view returns (uint8);
+
+	function latestRoundData()
+		external
+		view
+		returns (
+			uint80 roundId,
+			int256 answer,
+			uint256 startedAt,
+			uint256 updatedAt,
+			uint80 answeredInRound
+		);
+}
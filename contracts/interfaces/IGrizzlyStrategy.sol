@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.18;
+
+import { IUniswapV3Pool } from "@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol";
+import { IGrizzlyVaultStorage } from "./IGrizzlyVaultStorage.sol";
+
+/// @notice Range decisions consulted by Grizzly Vaults on strategy rebalances
+interface IGrizzlyStrategy {
+	/// @notice Computes the target range of a vault position and the swap parameters
+	/// @param pool Uniswap V3 pool of the vault
+	/// @param ticks Current range of the vault position
+	/// @param twapTick TWAP tick of the pool over the vault oracleSlippageInterval
+	/// @return newTicks Target range of the vault position
+	/// @return swapSlippageMax Maximum price move allowed by the swap balancing the amounts,
+	/// capped by the vault slippageRebalanceMax, 0 to use slippageRebalanceMax
+	function getRebalanceParams(
+		IUniswapV3Pool pool,
+		IGrizzlyVaultStorage.Ticks calldata ticks,
+		int24 twapTick
+	) external view returns (IGrizzlyVaultStorage.Ticks memory newTicks, uint24 swapSlippageMax);
+}
@@ -14,14 +14,42 @@ interface IGrizzlyVault is IGrizzlyVaultStorage {
 
 	function baseTicks() external view returns (Ticks memory);
 
+	function paused() external view returns (bool);
+
+	function oracleSlippageInterval() external view returns (uint32);
+
+	function swapAnchor() external view returns (SwapAnchor);
+
 	function getMintAmounts(
 		uint256 amount0Max,
 		uint256 amount1Max
 	) external returns (uint256 amount0, uint256 amount1, uint256 mintAmount);
 
+	function previewMint(
+		uint256 mintAmount
+	) external view returns (uint256 amount0, uint256 amount1);
+
 	function mint(
 		uint256 mintAmount,
 		address receiver
 	) external returns (uint256 amount0, uint256 amount1, uint128 liquidityMinted);
-}
 
+	function deposit(
+		uint256 amount0Max,
+		uint256 amount1Max,
+		uint256 minShares,
+		address receiver,
+		uint256 deadline
+	)
+		external
+		returns (uint256 amount0, uint256 amount1, uint256 mintAmount, uint128 liquidityMinted);
+
+	function burnWithPermit(
+		address owner,
+		uint256 burnAmount,
+		uint256 maxSwapSlippage,
+		uint8 outputToken,
+		address receiver,
+		PermitSignature calldata sharesPermit
+	) external returns (uint256 amount0, uint256 amount1, uint128 liquidityBurned);
+}
@@ -2,6 +2,14 @@
 pragma solidity 0.8.18;
 
 interface IGrizzlyVaultFactory {
+	function maxManagerFee() external view returns (uint24);
+
+	function protocolFee() external view returns (uint24);
+
+	function protocolTreasury() external view returns (address);
+
+	function increaseObservationCardinality(address uniPool, uint32 interval) external;
+
 	function cloneGrizzlyVault(
 		address tokenA,
 		address tokenB,
@@ -5,16 +5,62 @@ interface IGrizzlyVaultStorage {
 	// Needed to avoid error compiler stack too deep
 	struct LocalVariablesBurn {
 		uint256 totalSupply;
-		uint256 liquidityBurnt;
 		int256 amount0Delta;
 		int256 amount1Delta;
 	}
 
+	struct LocalVariablesMintWithToken {
+		uint256 totalSupply;
+		uint256 finalAmount0;
+		uint256 finalAmount1;
+	}
+
+	struct PermitSignature {
+		uint256 value;
+		uint256 deadline;
+		uint8 v;
+		bytes32 r;
+		bytes32 s;
+	}
+
 	struct Ticks {
 		int24 lowerTick;
 		int24 upperTick;
 	}
 
+	// Chainlink style feeds of the oracle check, feed0 and feed1 give the USD prices of token0 and
+	// token1, or feed0 alone gives the price of token0 in token1. Answers older than heartbeat
+	// seconds are stale
+	struct PriceFeeds {
+		address feed0;
+		address feed1;
+		uint32 heartbeat;
+	}
+
+	// Circuit breaker on the value of 1e18 shares, see Underlying.getShareValue, tripped once it
+	// deviates more than deviation from the reference value, 0 disables it
+	struct CircuitBreaker {
+		uint24 deviation;
+		bool tripped;
+		uint256 value;
+	}
+
+	// Swap of an executive rebalance computed off-chain, amount of the input token, direction and
+	// price limit. A sqrtPriceLimitX96 of 0 swaps the approximation of PoolActions.balanceAmounts
+	struct RebalanceSwap {
+		uint256 amountIn;
+		bool zeroForOne;
+		uint160 sqrtPriceLimitX96;
+	}
+
+	// Price the swap price limits are derived from: the pool price, the TWAP,
+	// or the one of both allowing the smallest price move
+	enum SwapAnchor {
+		Spot,
+		Twap,
+		Min
+	}
+
 	function initialize(
 		string memory _name,
 		string memory _symbol,
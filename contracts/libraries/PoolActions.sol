@@ -0,0 +1,255 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.18;
+
+import { IUniswapV3Pool } from "@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeCast } from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import { IGrizzlyVaultStorage } from "../interfaces/IGrizzlyVaultStorage.sol";
+import { TickMath } from "../uniswap/TickMath.sol";
+import { LiquidityAmounts } from "../uniswap/LiquidityAmounts.sol";
+import { PoolMath } from "./PoolMath.sol";
+
+/// @notice Pool swaps and withdrawals shared by Grizzly Vaults
+/// @dev Externally linked library, called through delegatecall so address(this) is the vault
+/// and pool callbacks are received by the vault.
+/// Kept out of GrizzlyVault to stay under the contract size limit
+library PoolActions {
+	using TickMath for int24;
+
+	/* solhint-disable */
+	uint24 internal constant basisOne = 1000000;
+
+	/* solhint-enable */
+
+	/// @notice Swaps `amountIn` in the pool with a price limit of `slippageMax` from the anchor price
+	/// @param pool Uniswap V3 pool of the vault
+	/// @param amountIn Amount of the input token to swap
+	/// @param zeroForOne Swap direction, true: token0 -> token1, false: token1 -> token0
+	/// @param slippageMax Maximum price move allowed by the swap
+	/// @param anchor Price the limit is derived from, see PoolMath.getSqrtPriceLimit
+	/// @param twapTick TWAP tick of the pool, unused if anchored to the pool price
+	/// @return amount0Delta Delta of the balance of token0 of the pool
+	/// @return amount1Delta Delta of the balance of token1 of the pool
+	function swap(
+		IUniswapV3Pool pool,
+		uint256 amountIn,
+		bool zeroForOne,
+		uint256 slippageMax,
+		IGrizzlyVaultStorage.SwapAnchor anchor,
+		int24 twapTick
+	) public returns (int256 amount0Delta, int256 amount1Delta) {
+		return
+			swapToLimit(
+				pool,
+				amountIn,
+				zeroForOne,
+				_getSqrtPriceLimit(pool, zeroForOne, slippageMax, anchor, twapTick)
+			);
+	}
+
+	/// @notice Swaps `amountIn` in the pool until the price reaches `sqrtPriceLimitX96`
+	/// @dev Same return values as swap, the limit is not checked
+	/// @param pool Uniswap V3 pool of the vault
+	/// @param amountIn Amount of the input token to swap
+	/// @param zeroForOne Swap direction, true: token0 -> token1, false: token1 -> token0
+	/// @param sqrtPriceLimitX96 Price limit of the swap as a sqrt Q64.96
+	function swapToLimit(
+		IUniswapV3Pool pool,
+		uint256 amountIn,
+		bool zeroForOne,
+		uint160 sqrtPriceLimitX96
+	) public returns (int256 amount0Delta, int256 amount1Delta) {
+		return
+			pool.swap(
+				address(this),
+				zeroForOne,
+				SafeCast.toInt256(amountIn),
+				sqrtPriceLimitX96,
+				abi.encode(false)
+			);
+	}
+
+	/// @notice Simulates a swap, the vault swap callback reverts with the amounts once known
+	/// @dev Same parameters and return values as swap, must be called statically
+	function previewSwap(
+		IUniswapV3Pool pool,
+		uint256 amountIn,
+		bool zeroForOne,
+		uint256 slippageMax,
+		IGrizzlyVaultStorage.SwapAnchor anchor,
+		int24 twapTick
+	) public returns (int256 amount0Delta, int256 amount1Delta) {
+		/* solhint-disable no-empty-blocks */
+		try
+			pool.swap(
+				address(this),
+				zeroForOne,
+				SafeCast.toInt256(amountIn),
+				_getSqrtPriceLimit(pool, zeroForOne, slippageMax, anchor, twapTick),
+				abi.encode(true)
+			)
+		{} catch (bytes memory reason) {
+			if (reason.length != 64) {
+				// Bubble up any other revert reason
+				assembly {
+					revert(add(reason, 32), mload(reason))
+				}
+			}
+			(amount0Delta, amount1Delta) = abi.decode(reason, (int256, int256));
+		}
+		/* solhint-enable no-empty-blocks */
+	}
+
+	/// @notice Swaps part of the desired amounts to match the ratio of the position
+	/// @param pool Uniswap V3 pool of the vault
+	/// @param ticks Bounds of the position
+	/// @param amount0Desired Amount of token0 available
+	/// @param amount1Desired Amount of token1 available
+	/// @param slippageMax Maximum price move allowed by the swap
+	/// @param anchor Price the swap limit is derived from, see PoolMath.getSqrtPriceLimit
+	/// @param twapTick TWAP tick of the pool, unused if anchored to the pool price
+	/// @return finalAmount0 Amount of token0 available after the swap
+	/// @return finalAmount1 Amount of token1 available after the swap
+	function balanceAmounts(
+		IUniswapV3Pool pool,
+		IGrizzlyVaultStorage.Ticks memory ticks,
+		uint256 amount0Desired,
+		uint256 amount1Desired,
+		uint256 slippageMax,
+		IGrizzlyVaultStorage.SwapAnchor anchor,
+		int24 twapTick
+	) public returns (uint256 finalAmount0, uint256 finalAmount1) {
+		(
+			bool zeroForOne,
+			uint256 amountSpecified,
+			uint256 amount0,
+			uint256 amount1
+		) = _getSwapAmount(pool, ticks, amount0Desired, amount1Desired);
+
+		if (amountSpecified == 0) return (amount0, amount1);
+
+		(int256 amount0Delta, int256 amount1Delta) = swap(
+			pool,
+			amountSpecified,
+			zeroForOne,
+			slippageMax,
+			anchor,
+			twapTick
+		);
+		finalAmount0 = uint256(SafeCast.toInt256(amount0Desired) - amount0Delta);
+		finalAmount1 = uint256(SafeCast.toInt256(amount1Desired) - amount1Delta);
+	}
+
+	/// @notice Burns `liquidity` from the position and collects all the tokens owed
+	/// @param pool Uniswap V3 pool of the vault
+	/// @param token0 Token0 of the pool
+	/// @param token1 Token1 of the pool
+	/// @param ticks Bounds of the position
+	/// @param liquidity Amount of liquidity to burn
+	/// @return burn0 Amount of token0 from the burnt liquidity
+	/// @return burn1 Amount of token1 from the burnt liquidity
+	/// @return fee0 Amount of token0 fees collected
+	/// @return fee1 Amount of token1 fees collected
+	function withdraw(
+		IUniswapV3Pool pool,
+		IERC20 token0,
+		IERC20 token1,
+		IGrizzlyVaultStorage.Ticks memory ticks,
+		uint128 liquidity
+	) public returns (uint256 burn0, uint256 burn1, uint256 fee0, uint256 fee1) {
+		uint256 preBalance0 = token0.balanceOf(address(this));
+		uint256 preBalance1 = token1.balanceOf(address(this));
+
+		(burn0, burn1) = pool.burn(ticks.lowerTick, ticks.upperTick, liquidity);
+
+		pool.collect(
+			address(this),
+			ticks.lowerTick,
+			ticks.upperTick,
+			type(uint128).max,
+			type(uint128).max
+		);
+
+		fee0 = token0.balanceOf(address(this)) - preBalance0 - burn0;
+		fee1 = token1.balanceOf(address(this)) - preBalance1 - burn1;
+	}
+
+	/// @notice Computes the sqrtPriceLimitX96 of a swap from the current pool price,
+	/// see PoolMath.getSqrtPriceLimit
+	function _getSqrtPriceLimit(
+		IUniswapV3Pool pool,
+		bool zeroForOne,
+		uint256 slippageMax,
+		IGrizzlyVaultStorage.SwapAnchor anchor,
+		int24 twapTick
+	) private view returns (uint160) {
+		(uint160 sqrtPriceX96, , , , , , ) = pool.slot0();
+
+		return PoolMath.getSqrtPriceLimit(sqrtPriceX96, twapTick, anchor, zeroForOne, slippageMax);
+	}
+
+	/// @notice Computes the swap matching the desired amounts to the ratio of the position
+	/// @return zeroForOne Swap direction, true: token0 -> token1, false: token1 -> token0
+	/// @return amountSpecified Amount of the input token to swap
+	/// @return amount0 Amount of token0 deposited in the position without swap
+	/// @return amount1 Amount of token1 deposited in the position without swap
+	// solhint-disable-next-line function-max-lines
+	function _getSwapAmount(
+		IUniswapV3Pool pool,
+		IGrizzlyVaultStorage.Ticks memory ticks,
+		uint256 amount0Desired,
+		uint256 amount1Desired
+	)
+		private
+		view
+		returns (bool zeroForOne, uint256 amountSpecified, uint256 amount0, uint256 amount1)
+	{
+		{
+			(uint160 sqrtRatioX96, , , , , , ) = pool.slot0();
+			uint160 sqrtRatioAX96 = ticks.lowerTick.getSqrtRatioAtTick();
+			uint160 sqrtRatioBX96 = ticks.upperTick.getSqrtRatioAtTick();
+
+			// Get max liquidity for amounts available
+			uint128 liquidity = LiquidityAmounts.getLiquidityForAmounts(
+				sqrtRatioX96,
+				sqrtRatioAX96,
+				sqrtRatioBX96,
+				amount0Desired,
+				amount1Desired
+			);
+			// Get correct amounts of each token for the liquidity we have
+			(amount0, amount1) = LiquidityAmounts.getAmountsForLiquidity(
+				sqrtRatioX96,
+				sqrtRatioAX96,
+				sqrtRatioBX96,
+				liquidity
+			);
+		}
+
+		// Determine the trade direction
+		if (amount1Desired == 0) {
+			zeroForOne = true;
+		} else {
+			zeroForOne = _amountsDirection(amount0Desired, amount1Desired, amount0, amount1);
+		}
+
+		// Determine the amount to swap, it is not 100% precise but is a very good approximation
+		uint24 uniPoolFee = pool.fee();
+		amountSpecified = zeroForOne
+			? ((amount0Desired - amount0) * (basisOne + uniPoolFee)) / (2 * basisOne + uniPoolFee)
+			: ((amount1Desired - amount1) * (basisOne + uniPoolFee)) / (2 * basisOne + uniPoolFee);
+	}
+
+	/// @dev Needed in case token0 and token1 have different decimals
+	function _amountsDirection(
+		uint256 amount0Desired,
+		uint256 amount1Desired,
+		uint256 amount0,
+		uint256 amount1
+	) private pure returns (bool zeroGreaterOne) {
+		zeroGreaterOne = (amount0Desired - amount0) * amount1Desired >
+			(amount1Desired - amount1) * amount0Desired
+			? true
+			: false;
+	}
+}
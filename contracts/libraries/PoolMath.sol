@@ -0,0 +1,84 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.18;
+
+import { IUniswapV3Pool } from "@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol";
+import { IGrizzlyVaultStorage } from "../interfaces/IGrizzlyVaultStorage.sol";
+import { TickMath } from "../uniswap/TickMath.sol";
+import { prbSqrt } from "@prb/math/src/Common.sol";
+
+/// @notice Pool price and tick helpers shared by the vaults, the zap and the strategies
+/// @dev Internal functions only, so the contracts using it do not need linking
+library PoolMath {
+	using TickMath for int24;
+
+	/* solhint-disable */
+	uint24 internal constant basisOne = 1000000;
+	uint16 internal constant basisOneSqrt = 1000;
+
+	/* solhint-enable */
+
+	/// @notice Computes the time weighted average tick of the pool
+	/// @param pool Uniswap V3 pool
+	/// @param interval Length of time for the TWAP
+	function getTwapTick(
+		IUniswapV3Pool pool,
+		uint32 interval
+	) internal view returns (int24 avgTick) {
+		uint32[] memory secondsAgo = new uint32[](2);
+		secondsAgo[0] = interval;
+		secondsAgo[1] = 0;
+
+		(int56[] memory tickCumulatives, ) = pool.observe(secondsAgo);
+
+		require(tickCumulatives.length == 2, "array length");
+		unchecked {
+			avgTick = int24((tickCumulatives[1] - tickCumulatives[0]) / int56(uint56(interval)));
+		}
+	}
+
+	/// @notice Range of `width` tick spacings around `tick`, rounded down to the tick spacing
+	/// @param tick Tick the range is centered on
+	/// @param width Width of the range in tick spacings
+	/// @param spacing Tick spacing of the pool
+	function centeredTicks(
+		int24 tick,
+		int24 width,
+		int24 spacing
+	) internal pure returns (IGrizzlyVaultStorage.Ticks memory newTicks) {
+		int24 centerTick = (tick / spacing) * spacing;
+		if (tick < centerTick) centerTick -= spacing;
+
+		newTicks.lowerTick = centerTick - (width / 2) * spacing;
+		newTicks.upperTick = newTicks.lowerTick + width * spacing;
+	}
+
+	/// @notice Computes the sqrtPriceLimitX96 of a swap from the anchor price. Anchored to the
+	/// TWAP, a swap reverts if the pool price already moved past the limit
+	/// @dev With SwapAnchor.Min the anchor is the TWAP if it is on the side of the swap direction
+	/// @param sqrtPriceX96 Current price of the pool
+	/// @param twapTick TWAP tick of the pool, unused if anchored to the pool price
+	/// @param anchor Price the limit is derived from
+	/// @param zeroForOne Swap direction, true: token0 -> token1, false: token1 -> token0
+	/// @param slippageMax Maximum price move from the anchor price
+	function getSqrtPriceLimit(
+		uint160 sqrtPriceX96,
+		int24 twapTick,
+		IGrizzlyVaultStorage.SwapAnchor anchor,
+		bool zeroForOne,
+		uint256 slippageMax
+	) internal pure returns (uint160) {
+		if (anchor != IGrizzlyVaultStorage.SwapAnchor.Spot) {
+			uint160 twapSqrtPriceX96 = twapTick.getSqrtRatioAtTick();
+			if (
+				anchor == IGrizzlyVaultStorage.SwapAnchor.Twap ||
+				(zeroForOne ? twapSqrtPriceX96 > sqrtPriceX96 : twapSqrtPriceX96 < sqrtPriceX96)
+			) sqrtPriceX96 = twapSqrtPriceX96;
+		}
+
+		uint256 slippageSqrt = zeroForOne
+			? prbSqrt(basisOne - slippageMax)
+			: prbSqrt(basisOne + slippageMax);
+
+		return uint160(uint256((sqrtPriceX96 * slippageSqrt) / basisOneSqrt));
+	}
+}
@@ -0,0 +1,386 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.18;
+
+import { IUniswapV3Pool } from "@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol";
+import { IERC20Metadata } from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import { IGrizzlyVaultStorage } from "../interfaces/IGrizzlyVaultStorage.sol";
+import { IAggregatorV3 } from "../interfaces/IAggregatorV3.sol";
+import { TickMath } from "../uniswap/TickMath.sol";
+import { prbSqrt } from "@prb/math/src/Common.sol";
+import { FullMath, LiquidityAmounts } from "../uniswap/LiquidityAmounts.sol";
+import { PoolMath } from "./PoolMath.sol";
+
+/// @notice Pool position computations shared by Grizzly Vaults
+/// @dev Externally linked library, called through delegatecall so address(this) is the vault.
+/// Kept out of GrizzlyVault to stay under the contract size limit
+library Underlying {
+	using TickMath for int24;
+
+	/* solhint-disable */
+	uint24 internal constant basisOne = 1000000;
+	uint16 internal constant basisOneSqrt = 1000;
+
+	/* solhint-enable */
+
+	/// @notice Computes the tokens held and the fees earned by a vault position
+	/// @param pool Uniswap V3 pool of the vault
+	/// @param ticks Bounds of the vault position
+	/// @param sqrtRatioX96 Price at which the position liquidity is valued
+	/// @param tick Current tick of the pool, used to compute the fees earned
+	/// @return amount0 Amount of token0 from the position liquidity
+	/// @return amount1 Amount of token1 from the position liquidity
+	/// @return fee0 Uncollected token0 fees of the position, before manager fees
+	/// @return fee1 Uncollected token1 fees of the position, before manager fees
+	function getPositionUnderlying(
+		IUniswapV3Pool pool,
+		IGrizzlyVaultStorage.Ticks memory ticks,
+		uint160 sqrtRatioX96,
+		int24 tick
+	) public view returns (uint256 amount0, uint256 amount1, uint256 fee0, uint256 fee1) {
+		uint128 liquidity;
+		uint256 feeGrowthInside0Last;
+		uint256 feeGrowthInside1Last;
+		(liquidity, feeGrowthInside0Last, feeGrowthInside1Last, fee0, fee1) = pool.positions(
+			keccak256(abi.encodePacked(address(this), ticks.lowerTick, ticks.upperTick))
+		);
+
+		// Compute current holdings from liquidity
+		(amount0, amount1) = amountsForLiquidity(liquidity, ticks, sqrtRatioX96);
+
+		// Compute current fees earned, on top of the tokens owed by the position
+		fee0 += _computeFeesEarned(pool, true, feeGrowthInside0Last, tick, liquidity, ticks);
+		fee1 += _computeFeesEarned(pool, false, feeGrowthInside1Last, tick, liquidity, ticks);
+	}
+
+	/// @notice Sums the tokens held and the fees earned by the base and limit positions of a
+	/// vault, the limit position is skipped if its range is empty
+	/// @param pool Uniswap V3 pool of the vault
+	/// @param baseTicks Bounds of the base position
+	/// @param limitTicks Bounds of the limit position
+	/// @param sqrtRatioX96 Price at which the positions liquidity is valued
+	/// @param tick Current tick of the pool, used to compute the fees earned
+	/// @return amount0 Amount of token0 from the positions liquidity
+	/// @return amount1 Amount of token1 from the positions liquidity
+	/// @return fee0 Uncollected token0 fees of the positions, before manager fees
+	/// @return fee1 Uncollected token1 fees of the positions, before manager fees
+	function getPositionsUnderlying(
+		IUniswapV3Pool pool,
+		IGrizzlyVaultStorage.Ticks memory baseTicks,
+		IGrizzlyVaultStorage.Ticks memory limitTicks,
+		uint160 sqrtRatioX96,
+		int24 tick
+	) public view returns (uint256 amount0, uint256 amount1, uint256 fee0, uint256 fee1) {
+		(amount0, amount1, fee0, fee1) = getPositionUnderlying(
+			pool,
+			baseTicks,
+			sqrtRatioX96,
+			tick
+		);
+		if (limitTicks.lowerTick == limitTicks.upperTick) return (amount0, amount1, fee0, fee1);
+
+		(
+			uint256 limit0,
+			uint256 limit1,
+			uint256 limitFee0,
+			uint256 limitFee1
+		) = getPositionUnderlying(pool, limitTicks, sqrtRatioX96, tick);
+
+		amount0 += limit0;
+		amount1 += limit1;
+		fee0 += limitFee0;
+		fee1 += limitFee1;
+	}
+
+	/// @notice Computes the token0 and token1 value for a given amount of liquidity
+	function amountsForLiquidity(
+		uint128 liquidity,
+		IGrizzlyVaultStorage.Ticks memory ticks,
+		uint160 sqrtRatioX96
+	) public pure returns (uint256, uint256) {
+		return
+			LiquidityAmounts.getAmountsForLiquidity(
+				sqrtRatioX96,
+				ticks.lowerTick.getSqrtRatioAtTick(),
+				ticks.upperTick.getSqrtRatioAtTick(),
+				liquidity
+			);
+	}
+
+	/// @notice Gets the liquidity for the available amounts of token0 and token1
+	function liquidityForAmounts(
+		IGrizzlyVaultStorage.Ticks memory ticks,
+		uint160 sqrtRatioX96,
+		uint256 amount0,
+		uint256 amount1
+	) public pure returns (uint128) {
+		return
+			LiquidityAmounts.getLiquidityForAmounts(
+				sqrtRatioX96,
+				ticks.lowerTick.getSqrtRatioAtTick(),
+				ticks.upperTick.getSqrtRatioAtTick(),
+				amount0,
+				amount1
+			);
+	}
+
+	/// @notice Reverts if the pool price deviates from the oracle price more than `oracleSlippage`
+	/// @param pool Uniswap V3 pool of the vault
+	/// @param oracleSlippageInterval Length of time for the TWAP
+	/// @param oracleSlippage Maximum deviation allowed between spot price and oracle price
+	/// @param feeds Price feeds of the vault, see getOracleSqrtPrice
+	function checkPriceSlippage(
+		IUniswapV3Pool pool,
+		uint32 oracleSlippageInterval,
+		uint24 oracleSlippage,
+		IGrizzlyVaultStorage.PriceFeeds memory feeds
+	) public view {
+		require(
+			isPriceNearOracle(pool, oracleSlippageInterval, oracleSlippage, feeds),
+			"high slippage"
+		);
+	}
+
+	/// @notice Whether the pool price deviates from the oracle price less than `oracleSlippage`
+	/// @dev Same parameters as checkPriceSlippage
+	function isPriceNearOracle(
+		IUniswapV3Pool pool,
+		uint32 oracleSlippageInterval,
+		uint24 oracleSlippage,
+		IGrizzlyVaultStorage.PriceFeeds memory feeds
+	) public view returns (bool) {
+		uint160 avgSqrtRatioX96 = getOracleSqrtPrice(pool, oracleSlippageInterval, feeds);
+
+		(uint160 sqrtPriceX96, , , , , , ) = pool.slot0();
+
+		uint256 oracleSlippageSqrt = avgSqrtRatioX96 < sqrtPriceX96
+			? prbSqrt(basisOne + oracleSlippage)
+			: prbSqrt(basisOne - oracleSlippage);
+
+		uint160 limitSqrtRatioX96 = uint160((avgSqrtRatioX96 * oracleSlippageSqrt) / basisOneSqrt);
+
+		return
+			avgSqrtRatioX96 < sqrtPriceX96
+				? sqrtPriceX96 < limitSqrtRatioX96
+				: sqrtPriceX96 > limitSqrtRatioX96;
+	}
+
+	/// @notice Computes the reference price of the oracle check: the price of the feeds if set and
+	/// fresh, otherwise the TWAP of the pool
+	/// @param pool Uniswap V3 pool of the vault
+	/// @param interval Length of time for the TWAP
+	/// @param feeds Price feeds of the vault, unused if feed0 is not set
+	/// @return sqrtPriceX96 Oracle price of token0 in token1 as a sqrt Q64.96
+	function getOracleSqrtPrice(
+		IUniswapV3Pool pool,
+		uint32 interval,
+		IGrizzlyVaultStorage.PriceFeeds memory feeds
+	) public view returns (uint160 sqrtPriceX96) {
+		if (feeds.feed0 != address(0)) sqrtPriceX96 = _getFeedsSqrtPrice(pool, feeds);
+
+		// Fallback to the TWAP if a feed is stale or broken
+		if (sqrtPriceX96 == 0) sqrtPriceX96 = getTwapTick(pool, interval).getSqrtRatioAtTick();
+	}
+
+	/// @notice Computes the time weighted average tick of the pool
+	/// @param pool Uniswap V3 pool of the vault
+	/// @param interval Length of time for the TWAP
+	function getTwapTick(
+		IUniswapV3Pool pool,
+		uint32 interval
+	) public view returns (int24 avgTick) {
+		return PoolMath.getTwapTick(pool, interval);
+	}
+
+	/// @notice Whether the pool observations cover a TWAP over `interval`, otherwise the oracle
+	/// checks revert with "OLD"
+	/// @param pool Uniswap V3 pool of the vault
+	/// @param interval Length of time for the TWAP
+	function isOracleReady(IUniswapV3Pool pool, uint32 interval) public view returns (bool) {
+		uint32[] memory secondsAgo = new uint32[](2);
+		secondsAgo[0] = interval;
+
+		try pool.observe(secondsAgo) returns (int56[] memory, uint160[] memory) {
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	/// @notice Whether the share value deviates more than the deviation of `breaker` from its
+	/// reference value, never while it is disabled or the reference is not recorded
+	/// @param breaker Circuit breaker of the vault
+	/// @param amount0 Underlying balance of token0 of the vault
+	/// @param amount1 Underlying balance of token1 of the vault
+	/// @param totalSupply Total supply of vault shares
+	/// @param sqrtRatioX96 Pool price the balances are valued at
+	/// @return deviated Whether the share value deviates too much
+	/// @return value Current share value, see getShareValue
+	function isShareValueDeviated(
+		IGrizzlyVaultStorage.CircuitBreaker storage breaker,
+		uint256 amount0,
+		uint256 amount1,
+		uint256 totalSupply,
+		uint160 sqrtRatioX96
+	) public view returns (bool deviated, uint256 value) {
+		value = getShareValue(amount0, amount1, totalSupply, sqrtRatioX96);
+		uint256 referenceValue = breaker.value;
+		if (breaker.deviation == 0 || value == 0 || referenceValue == 0) return (false, value);
+
+		uint256 delta = value > referenceValue ? value - referenceValue : referenceValue - value;
+		deviated = delta * basisOne > referenceValue * breaker.deviation;
+	}
+
+	/// @notice Computes the value of 1e18 shares as the geometric mean of their value in token0
+	/// and in token1 at the pool price
+	/// @dev Unlike either value, the mean of a full range position does not move with the price.
+	/// Same parameters as isShareValueDeviated, the value is 0 without shares
+	function getShareValue(
+		uint256 amount0,
+		uint256 amount1,
+		uint256 totalSupply,
+		uint160 sqrtRatioX96
+	) public pure returns (uint256) {
+		if (totalSupply == 0) return 0;
+
+		// sqrt(value in token0 * value in token1) = amount0 * sqrt(price) + amount1 / sqrt(price)
+		uint256 meanAmount = FullMath.mulDiv(amount0, sqrtRatioX96, 1 << 96) +
+			FullMath.mulDiv(amount1, 1 << 96, sqrtRatioX96);
+
+		return FullMath.mulDiv(meanAmount, 1e18, totalSupply);
+	}
+
+	/// @notice Computes the maximum shares minted for `amount0Max` and `amount1Max` and the
+	/// amounts of the mint, proportionally to the underlying balances
+	/// @param totalSupply Total supply of vault shares
+	/// @param amount0Current Underlying balance of token0 of the vault
+	/// @param amount1Current Underlying balance of token1 of the vault
+	/// @param amount0Max Maximum amount of token0 to deposit
+	/// @param amount1Max Maximum amount of token1 to deposit
+	/// @return amount0 Amount of token0 to deposit
+	/// @return amount1 Amount of token1 to deposit
+	/// @return mintAmount Number of shares to mint
+	function computeMintAmounts(
+		uint256 totalSupply,
+		uint256 amount0Current,
+		uint256 amount1Current,
+		uint256 amount0Max,
+		uint256 amount1Max
+	) public pure returns (uint256 amount0, uint256 amount1, uint256 mintAmount) {
+		// Compute proportional amount of tokens to mint
+		if (amount0Current == 0 && amount1Current > 0) {
+			mintAmount = FullMath.mulDiv(amount1Max, totalSupply, amount1Current);
+		} else if (amount1Current == 0 && amount0Current > 0) {
+			mintAmount = FullMath.mulDiv(amount0Max, totalSupply, amount0Current);
+		} else if (amount0Current == 0 && amount1Current == 0) {
+			revert("no balances");
+		} else {
+			// Only if both are non-zero
+			uint256 amount0Mint = FullMath.mulDiv(amount0Max, totalSupply, amount0Current);
+			uint256 amount1Mint = FullMath.mulDiv(amount1Max, totalSupply, amount1Current);
+			require(amount0Mint > 0 && amount1Mint > 0, "mint 0");
+
+			mintAmount = amount0Mint < amount1Mint ? amount0Mint : amount1Mint;
+		}
+
+		// Compute amounts owed to contract
+		amount0 = FullMath.mulDivRoundingUp(mintAmount, amount0Current, totalSupply);
+		amount1 = FullMath.mulDivRoundingUp(mintAmount, amount1Current, totalSupply);
+	}
+
+	/// @notice Price of token0 in token1 from the feeds as a sqrt Q64.96, 0 if a feed is not usable
+	function _getFeedsSqrtPrice(
+		IUniswapV3Pool pool,
+		IGrizzlyVaultStorage.PriceFeeds memory feeds
+	) private view returns (uint160) {
+		(uint256 price0, uint8 decimals0) = _getFeedPrice(feeds.feed0, feeds.heartbeat);
+		if (price0 == 0) return 0;
+
+		// Price in raw token units, scaled by the decimals of the tokens and the feeds
+		uint256 numerator = price0 * 10 ** IERC20Metadata(pool.token1()).decimals();
+		uint256 denominator = 10 ** (decimals0 + IERC20Metadata(pool.token0()).decimals());
+
+		if (feeds.feed1 != address(0)) {
+			(uint256 price1, uint8 decimals1) = _getFeedPrice(feeds.feed1, feeds.heartbeat);
+			if (price1 == 0) return 0;
+
+			numerator *= 10 ** decimals1;
+			denominator *= price1;
+		}
+
+		return uint160(prbSqrt(FullMath.mulDiv(numerator, 1 << 96, denominator)) << 48);
+	}
+
+	/// @notice Latest answer of `feed` and its decimals, 0 if stale, not positive or reverting
+	function _getFeedPrice(
+		address feed,
+		uint32 heartbeat
+	) private view returns (uint256 price, uint8 decimals) {
+		try IAggregatorV3(feed).latestRoundData() returns (
+			uint80,
+			int256 answer,
+			uint256,
+			uint256 updatedAt,
+			uint80
+		) {
+			// solhint-disable-next-line not-rely-on-time
+			if (answer <= 0 || block.timestamp > updatedAt + heartbeat) return (0, 0);
+
+			try IAggregatorV3(feed).decimals() returns (uint8 feedDecimals) {
+				return (uint256(answer), feedDecimals);
+			} catch {
+				return (0, 0);
+			}
+		} catch {
+			return (0, 0);
+		}
+	}
+
+	// solhint-disable-next-line function-max-lines
+	function _computeFeesEarned(
+		IUniswapV3Pool pool,
+		bool isZero,
+		uint256 feeGrowthInsideLast,
+		int24 tick,
+		uint128 liquidity,
+		IGrizzlyVaultStorage.Ticks memory ticks
+	) private view returns (uint256 fee) {
+		uint256 feeGrowthOutsideLower;
+		uint256 feeGrowthOutsideUpper;
+		uint256 feeGrowthGlobal;
+
+		if (isZero) {
+			feeGrowthGlobal = pool.feeGrowthGlobal0X128();
+			(, , feeGrowthOutsideLower, , , , , ) = pool.ticks(ticks.lowerTick);
+			(, , feeGrowthOutsideUpper, , , , , ) = pool.ticks(ticks.upperTick);
+		} else {
+			feeGrowthGlobal = pool.feeGrowthGlobal1X128();
+			(, , , feeGrowthOutsideLower, , , , ) = pool.ticks(ticks.lowerTick);
+			(, , , feeGrowthOutsideUpper, , , , ) = pool.ticks(ticks.upperTick);
+		}
+
+		unchecked {
+			// Calculate fee growth below
+			uint256 feeGrowthBelow;
+			if (tick >= ticks.lowerTick) {
+				feeGrowthBelow = feeGrowthOutsideLower;
+			} else {
+				feeGrowthBelow = feeGrowthGlobal - feeGrowthOutsideLower;
+			}
+
+			// Calculate fee growth above
+			uint256 feeGrowthAbove;
+			if (tick < ticks.upperTick) {
+				feeGrowthAbove = feeGrowthOutsideUpper;
+			} else {
+				feeGrowthAbove = feeGrowthGlobal - feeGrowthOutsideUpper;
+			}
+
+			uint256 feeGrowthInside = feeGrowthGlobal - feeGrowthBelow - feeGrowthAbove;
+			fee = FullMath.mulDiv(
+				liquidity,
+				feeGrowthInside - feeGrowthInsideLast,
+				0x100000000000000000000000000000000
+			);
+		}
+	}
+}
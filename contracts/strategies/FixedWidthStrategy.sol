@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.18;
+
+import { IUniswapV3Pool } from "@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol";
+import { GrizzlyStrategyBase } from "../abstract/GrizzlyStrategyBase.sol";
+import { IGrizzlyStrategy } from "../interfaces/IGrizzlyStrategy.sol";
+import { IGrizzlyVaultStorage } from "../interfaces/IGrizzlyVaultStorage.sol";
+import { PoolMath } from "../libraries/PoolMath.sol";
+
+/// @notice Reference strategy keeping a range of fixed width centered on the TWAP
+contract FixedWidthStrategy is GrizzlyStrategyBase {
+	/// @notice Width of the range in tick spacings
+	int24 public immutable width;
+
+	constructor(int24 _width, uint24 _maxSwapSlippage) GrizzlyStrategyBase(_maxSwapSlippage) {
+		require(_width > 0, "wrong width");
+		width = _width;
+	}
+
+	/// @inheritdoc IGrizzlyStrategy
+	function getRebalanceParams(
+		IUniswapV3Pool pool,
+		IGrizzlyVaultStorage.Ticks calldata,
+		int24 twapTick
+	)
+		external
+		view
+		returns (IGrizzlyVaultStorage.Ticks memory newTicks, uint24 swapSlippageMax)
+	{
+		return (PoolMath.centeredTicks(twapTick, width, pool.tickSpacing()), maxSwapSlippage);
+	}
+}
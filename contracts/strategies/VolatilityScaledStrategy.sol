@@ -0,0 +1,81 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.18;
+
+import { IUniswapV3Pool } from "@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol";
+import { GrizzlyStrategyBase } from "../abstract/GrizzlyStrategyBase.sol";
+import { IGrizzlyStrategy } from "../interfaces/IGrizzlyStrategy.sol";
+import { IGrizzlyVaultStorage } from "../interfaces/IGrizzlyVaultStorage.sol";
+import { PoolMath } from "../libraries/PoolMath.sol";
+
+/// @notice Reference strategy centering the range on the TWAP, with a width growing with the
+/// volatility of the pool
+/// @dev Volatility is measured as the distance in ticks between the vault TWAP and a TWAP over
+/// the longer volatilityInterval. The width in tick spacings is
+/// minWidth + volatilityMultiplier * distance / tickSpacing, capped by maxWidth.
+/// volatilityMultiplier is at most MAX_VOLATILITY_MULTIPLIER
+contract VolatilityScaledStrategy is GrizzlyStrategyBase {
+	/// @notice Upper bound of volatilityMultiplier
+	int24 public constant MAX_VOLATILITY_MULTIPLIER = 100;
+
+	/// @notice Minimum and maximum width of the range in tick spacings
+	int24 public immutable minWidth;
+	int24 public immutable maxWidth;
+
+	/// @notice Length of time of the TWAP the vault TWAP is compared to
+	uint32 public immutable volatilityInterval;
+
+	/// @notice Ticks of range added per tick of distance between both TWAPs
+	int24 public immutable volatilityMultiplier;
+
+	constructor(
+		int24 _minWidth,
+		int24 _maxWidth,
+		uint32 _volatilityInterval,
+		int24 _volatilityMultiplier,
+		uint24 _maxSwapSlippage
+	) GrizzlyStrategyBase(_maxSwapSlippage) {
+		require(_minWidth > 0 && _maxWidth >= _minWidth, "wrong width");
+		require(
+			_volatilityInterval > 0 &&
+				_volatilityMultiplier >= 0 &&
+				_volatilityMultiplier <= MAX_VOLATILITY_MULTIPLIER,
+			"wrong volatility params"
+		);
+		minWidth = _minWidth;
+		maxWidth = _maxWidth;
+		volatilityInterval = _volatilityInterval;
+		volatilityMultiplier = _volatilityMultiplier;
+	}
+
+	/// @inheritdoc IGrizzlyStrategy
+	function getRebalanceParams(
+		IUniswapV3Pool pool,
+		IGrizzlyVaultStorage.Ticks calldata,
+		int24 twapTick
+	)
+		external
+		view
+		returns (IGrizzlyVaultStorage.Ticks memory newTicks, uint24 swapSlippageMax)
+	{
+		return (
+			PoolMath.centeredTicks(twapTick, getWidth(pool, twapTick), pool.tickSpacing()),
+			maxSwapSlippage
+		);
+	}
+
+	/// @notice Width in tick spacings of the range given the volatility of the pool
+	/// @param pool Uniswap V3 pool of the vault
+	/// @param twapTick TWAP tick of the pool over the vault oracleSlippageInterval
+	function getWidth(IUniswapV3Pool pool, int24 twapTick) public view returns (int24 width) {
+		int24 longTwapTick = PoolMath.getTwapTick(pool, volatilityInterval);
+		int24 distance = twapTick > longTwapTick
+			? twapTick - longTwapTick
+			: longTwapTick - twapTick;
+
+		// Scaled in int256 so a large distance cannot overflow before the cap applies
+		int256 scaledWidth = int256(minWidth) +
+			(int256(volatilityMultiplier) * distance) /
+			pool.tickSpacing();
+		width = scaledWidth > maxWidth ? maxWidth : int24(scaledWidth);
+	}
+}
@@ -2,18 +2,62 @@ import { deployments, getNamedAccounts } from "hardhat";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
 
+// Wrapped native token used by ZapContract, local networks fork mainnet
+const WETH: { [network: string]: string } = {
+  mainnet: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+  hardhat: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+  localhost: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+  goerli: "0xB4FBF271143F4FBf7B91A5ded31805e42b2208d6",
+  sepolia: "0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14",
+};
+
 const func: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
   const { deploy } = deployments;
   const { deployer } = await getNamedAccounts();
 
   console.log(`Deploying Core Vault and Zap to ${hre.network.name}...`);
+  const underlying = await deploy("Underlying", {
+    from: deployer,
+    log: true,
+    autoMine: true,
+  });
+  const poolActions = await deploy("PoolActions", {
+    from: deployer,
+    log: true,
+    autoMine: true,
+  });
+  const libraries = {
+    Underlying: underlying.address,
+    PoolActions: poolActions.address,
+  };
+  const extension = await deploy("GrizzlyVaultExtension", {
+    from: deployer,
+    libraries,
+    log: true,
+    autoMine: true,
+  });
+  const settings = await deploy("GrizzlyVaultSettings", {
+    from: deployer,
+    libraries,
+    log: true,
+    autoMine: true,
+  });
+  const views = await deploy("GrizzlyVaultViews", {
+    from: deployer,
+    libraries,
+    log: true,
+    autoMine: true,
+  });
   await deploy("GrizzlyVault", {
     from: deployer,
+    args: [extension.address, settings.address, views.address],
+    libraries,
     log: true,
     autoMine: true,
   });
   await deploy("ZapContract", {
     from: deployer,
+    args: [WETH[hre.network.name]],
     log: true,
     autoMine: true,
   });
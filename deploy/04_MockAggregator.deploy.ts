@@ -0,0 +1,32 @@
+import { deployments, getNamedAccounts } from "hardhat";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+
+const func: DeployFunction = async () => {
+  const { deploy } = deployments;
+  const { deployer } = await getNamedAccounts();
+
+  // USD price feeds of TokenA and TokenB, both worth 1 USD with 8 decimals
+  await deploy("FeedA", {
+    contract: "MockAggregator",
+    from: deployer,
+    args: [8, 100000000],
+    log: true,
+    autoMine: true,
+  });
+
+  await deploy("FeedB", {
+    contract: "MockAggregator",
+    from: deployer,
+    args: [8, 100000000],
+    log: true,
+    autoMine: true,
+  });
+};
+
+// Mock feeds are only deployed on local networks
+func.skip = async (hre: HardhatRuntimeEnvironment) => hre.network.live;
+
+func.tags = ["MockAggregator", "local"];
+
+export default func;
@@ -71,6 +71,8 @@ const config: HardhatUserConfig = {
         version: "0.8.18",
         settings: {
           optimizer: { enabled: true, runs: 500 },
+          // storage layouts of the vault and its delegates are compared in tests
+          outputSelection: { "*": { "*": ["storageLayout"] } },
         },
       },
     ],
@@ -3,6 +3,13 @@ import { ContractFactory } from "ethers";
 
 //const MULTI_SIG_GRIZZLY_ETH = "0xcE88F73FAA2C8de5fdE0951A6b80583af4C14265";
 
+// Wrapped native token used by ZapContract
+const WETH: { [network: string]: string } = {
+  mainnet: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+  goerli: "0xB4FBF271143F4FBf7B91A5ded31805e42b2208d6",
+  sepolia: "0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14",
+};
+
 async function main() {
   console.log(new Date().toUTCString());
 
@@ -20,22 +27,66 @@ async function main() {
   console.log("gasPrice: ", (await ethers.provider.getGasPrice()).toNumber());
 
   // Deploy contracts
-  const grizzlyVaultFactory = await ethers.getContractFactory("GrizzlyVault");
+  const underlyingFactory = await ethers.getContractFactory("Underlying");
+  const underlying = await deploy(underlyingFactory, "Underlying");
+  const poolActionsFactory = await ethers.getContractFactory("PoolActions");
+  const poolActions = await deploy(poolActionsFactory, "PoolActions");
+
+  const libraries = {
+    Underlying: underlying.address,
+    PoolActions: poolActions.address,
+  };
+  const extensionFactory = await ethers.getContractFactory(
+    "GrizzlyVaultExtension",
+    { libraries }
+  );
+  const settingsFactory = await ethers.getContractFactory(
+    "GrizzlyVaultSettings",
+    { libraries }
+  );
+  const viewsFactory = await ethers.getContractFactory("GrizzlyVaultViews", {
+    libraries,
+  });
+  const grizzlyVaultFactory = await ethers.getContractFactory("GrizzlyVault", {
+    libraries,
+  });
   const zapContractFactory = await ethers.getContractFactory("ZapContract");
 
-  const grizzlyVault = await deploy(grizzlyVaultFactory, "GrizzlyVault");
-  const zapContract = await deploy(zapContractFactory, "ZapContract");
+  const extension = await deploy(extensionFactory, "GrizzlyVaultExtension");
+  const settings = await deploy(settingsFactory, "GrizzlyVaultSettings");
+  const views = await deploy(viewsFactory, "GrizzlyVaultViews");
+  const grizzlyVault = await deploy(grizzlyVaultFactory, "GrizzlyVault", [
+    extension.address,
+    settings.address,
+    views.address,
+  ]);
+  const zapContract = await deploy(zapContractFactory, "ZapContract", [
+    WETH[network.name],
+  ]);
 
   // Verification
   if (network.config.chainId === 5 && process.env.ETHERSCAN_API_KEY) {
     console.log("Waiting for block confirmations...");
     await zapContract.deployTransaction.wait(5);
-    await verify(grizzlyVault.address, []);
-    await verify(zapContract.address, []);
+    await verify(underlying.address, []);
+    await verify(poolActions.address, []);
+    await verify(extension.address, []);
+    await verify(settings.address, []);
+    await verify(views.address, []);
+    await verify(grizzlyVault.address, [
+      extension.address,
+      settings.address,
+      views.address,
+    ]);
+    await verify(zapContract.address, [WETH[network.name]]);
   }
 }
 
-async function deploy(factory: ContractFactory, name: string, params = []) {
+async function deploy(
+  factory: ContractFactory,
+  name: string,
+  params: string[] = []
+) {
   console.log(`Deploying ${name}...`);
   const contract = await factory.deploy(...params);
   await contract.deployed();
@@ -1,7 +1,7 @@
 import { expect } from "chai";
 import bn from "bignumber.js";
 import { BigNumber, BigNumberish } from "ethers";
-import { ethers, deployments } from "hardhat";
+import { ethers, deployments, artifacts } from "hardhat";
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 import * as helpers from "@nomicfoundation/hardhat-network-helpers";
 
@@ -12,6 +12,7 @@ import {
   GrizzlyVaultFactory,
   SwapTest,
   ERC20Upgradeable,
+  MockAggregator,
 } from "../typechain";
 import { pools } from "./data/pools";
 
@@ -80,6 +81,49 @@ describe("Grizzly Vault Contracts", () => {
     );
   });
 
+  describe("Storage layout", () => {
+    // State variables of a contract as "slot:offset label type", without the AST ids
+    const getStorageLayout = async (name: string): Promise<string[]> => {
+      const source = `contracts/${name}.sol`;
+      const buildInfo = await artifacts.getBuildInfo(`${source}:${name}`);
+      const { storageLayout } = buildInfo?.output.contracts[source][
+        name
+      ] as unknown as {
+        storageLayout: {
+          storage: {
+            label: string;
+            slot: string;
+            offset: number;
+            type: string;
+          }[];
+        };
+      };
+
+      return storageLayout.storage.map(
+        ({ label, slot, offset, type }) =>
+          `${slot}:${offset} ${label} ${type.replace(
+            /(t_(?:struct|contract|enum)\([^)]*\))\d+/g,
+            "$1"
+          )}`
+      );
+    };
+
+    it("Should share the vault storage layout with its delegates", async () => {
+      const vaultLayout = await getStorageLayout("GrizzlyVault");
+      expect(vaultLayout).to.not.be.empty;
+
+      expect(await getStorageLayout("GrizzlyVaultExtension")).to.deep.eq(
+        vaultLayout
+      );
+      expect(await getStorageLayout("GrizzlyVaultSettings")).to.deep.eq(
+        vaultLayout
+      );
+      expect(await getStorageLayout("GrizzlyVaultViews")).to.deep.eq(
+        vaultLayout
+      );
+    });
+  });
+
   describe("Test with mock tokens", () => {
     beforeEach(async () => {
       token0 = await ethers.getContract("TokenA", deployerGrizzly);
@@ -299,6 +343,188 @@ describe("Grizzly Vault Contracts", () => {
           );
         });
       });
+
+      describe("Set max manager fee", () => {
+        it("Should revert when not owner", async () => {
+          await expect(
+            grizzlyFactory.connect(user).setMaxManagerFee(100000)
+          ).to.be.revertedWith("Ownable: caller is not the owner");
+        });
+
+        it("Should revert with wrong parameters", async () => {
+          await expect(
+            grizzlyFactory.setMaxManagerFee(1000001)
+          ).to.be.revertedWith("fee too high");
+        });
+
+        it("Should set max manager fee correctly", async () => {
+          // Default max manager fee is 20%
+          expect(await grizzlyFactory.maxManagerFee()).to.be.eq(200000);
+
+          // Vaults can not be cloned above the default
+          await expect(
+            grizzlyFactory.cloneGrizzlyVault(
+              token0.address,
+              token1.address,
+              3000,
+              200001,
+              -887220,
+              887220,
+              manager.address
+            )
+          ).to.be.revertedWith("fee too high");
+
+          await expect(grizzlyFactory.setMaxManagerFee(100000))
+            .to.emit(grizzlyFactory, "MaxManagerFeeChanged")
+            .withArgs(100000);
+          expect(await grizzlyFactory.maxManagerFee()).to.be.eq(100000);
+
+          // Vaults can not be cloned with a higher fee
+          await expect(
+            grizzlyFactory.cloneGrizzlyVault(
+              token0.address,
+              token1.address,
+              3000,
+              100001,
+              -887220,
+              887220,
+              manager.address
+            )
+          ).to.be.revertedWith("fee too high");
+        });
+      });
+
+      describe("Set protocol fee", () => {
+        it("Should revert when not owner", async () => {
+          await expect(
+            grizzlyFactory.connect(user).setProtocolFee(100000)
+          ).to.be.revertedWith("Ownable: caller is not the owner");
+
+          await expect(
+            grizzlyFactory.connect(user).setProtocolTreasury(user.address)
+          ).to.be.revertedWith("Ownable: caller is not the owner");
+        });
+
+        it("Should revert with wrong parameters", async () => {
+          await expect(
+            grizzlyFactory.setProtocolFee(500001)
+          ).to.be.revertedWith("protocol fee too high");
+
+          await expect(
+            grizzlyFactory.setProtocolTreasury(ethers.constants.AddressZero)
+          ).to.be.revertedWith("zeroAddress");
+        });
+
+        it("Should set protocol fee and treasury correctly", async () => {
+          // Protocol fee is 0 and treasury is the deployer by default
+          expect(await grizzlyFactory.protocolFee()).to.be.eq(0);
+          expect(await grizzlyFactory.protocolTreasury()).to.be.eq(
+            deployerGrizzly.address
+          );
+
+          await expect(grizzlyFactory.setProtocolFee(100000))
+            .to.emit(grizzlyFactory, "ProtocolFeeChanged")
+            .withArgs(100000);
+          expect(await grizzlyFactory.protocolFee()).to.be.eq(100000);
+
+          await expect(grizzlyFactory.setProtocolTreasury(user.address))
+            .to.emit(grizzlyFactory, "ProtocolTreasuryChanged")
+            .withArgs(user.address);
+          expect(await grizzlyFactory.protocolTreasury()).to.be.eq(
+            user.address
+          );
+        });
+      });
+
+      describe("Oracle observations", () => {
+        it("Should grow the pool observations on clone", async () => {
+          // 5 minutes oracle interval with 12 seconds per observation
+          expect(await grizzlyFactory.getObservationCardinality(300)).to.be.eq(
+            26
+          );
+          expect(
+            (await uniswapPool.slot0()).observationCardinalityNext
+          ).to.be.eq(26);
+        });
+
+        it("Should not shrink the pool observations", async () => {
+          await grizzlyFactory.increaseObservationCardinality(
+            uniswapPool.address,
+            60
+          );
+          expect(
+            (await uniswapPool.slot0()).observationCardinalityNext
+          ).to.be.eq(26);
+        });
+
+        it("Should revert when not owner", async () => {
+          await expect(
+            grizzlyFactory.connect(user).setObservationPeriod(2)
+          ).to.be.revertedWith("Ownable: caller is not the owner");
+        });
+
+        it("Should revert with wrong parameters", async () => {
+          await expect(
+            grizzlyFactory.setObservationPeriod(0)
+          ).to.be.revertedWith("wrong observation period");
+        });
+
+        it("Should set observation period correctly", async () => {
+          await expect(grizzlyFactory.setObservationPeriod(2))
+            .to.emit(grizzlyFactory, "ObservationPeriodChanged")
+            .withArgs(2);
+          expect(await grizzlyFactory.observationPeriod()).to.be.eq(2);
+          expect(await grizzlyFactory.getObservationCardinality(300)).to.be.eq(
+            151
+          );
+
+          // Vaults grow the pool observations when their interval changes
+          await grizzlyVault
+            .connect(manager)
+            .updateConfigParams(0, 600, manager.address);
+          expect(
+            (await uniswapPool.slot0()).observationCardinalityNext
+          ).to.be.eq(301);
+        });
+      });
+
+      describe("Transfer ownership", () => {
+        it("Should revert when not owner", async () => {
+          await expect(
+            grizzlyFactory.connect(user).transferOwnership(user.address)
+          ).to.be.revertedWith("Ownable: caller is not the owner");
+        });
+
+        it("Should revert when not pending owner", async () => {
+          await grizzlyFactory.transferOwnership(user.address);
+
+          await expect(
+            grizzlyFactory.connect(bot).acceptOwnership()
+          ).to.be.revertedWith("Ownable2Step: caller is not the new owner");
+        });
+
+        it("Should transfer ownership in two steps", async () => {
+          await expect(grizzlyFactory.transferOwnership(user.address))
+            .to.emit(grizzlyFactory, "OwnershipTransferStarted")
+            .withArgs(deployerGrizzly.address, user.address);
+          expect(await grizzlyFactory.owner()).to.be.eq(
+            deployerGrizzly.address
+          );
+          expect(await grizzlyFactory.pendingOwner()).to.be.eq(user.address);
+
+          await expect(grizzlyFactory.connect(user).acceptOwnership())
+            .to.emit(grizzlyFactory, "OwnershipTransferred")
+            .withArgs(deployerGrizzly.address, user.address);
+          expect(await grizzlyFactory.owner()).to.be.eq(user.address);
+          expect(await grizzlyFactory.pendingOwner()).to.be.eq(
+            ethers.constants.AddressZero
+          );
+
+          await expect(
+            grizzlyFactory.setMaxManagerFee(100000)
+          ).to.be.revertedWith("Ownable: caller is not the owner");
+        });
+      });
     });
 
     describe("Grizzly Vault", () => {
@@ -588,7 +814,115 @@ describe("Grizzly Vault Contracts", () => {
             expect(fees.token1Fee).to.be.gt(0);
           });
         });
+        describe("Preview mint and burn", () => {
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("100"),
+              ethers.utils.parseEther("100")
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            // We make some swaps to generate fees
+            await swapTest.washTrade(uniswapPool.address, 50000, 10000, 10, 3);
+          });
+
+          it("Should preview the amounts of a mint", async () => {
+            const amounts = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("1.0"),
+              ethers.utils.parseEther("1.0")
+            );
+
+            const preview = await grizzlyVault.previewMint(amounts.mintAmount);
+
+            expect(preview.amount0).to.be.eq(amounts.amount0);
+            expect(preview.amount1).to.be.eq(amounts.amount1);
+          });
+
+          it("Should preview the amounts of a burn with both tokens", async () => {
+            const burnAmount = (
+              await grizzlyVault.balanceOf(deployerGrizzly.address)
+            ).div(10);
+
+            const preview = await grizzlyVault.callStatic.previewBurn(
+              burnAmount,
+              2
+            );
+            const amounts = await grizzlyVault.callStatic.burn(
+              burnAmount,
+              0,
+              2,
+              deployerGrizzly.address
+            );
+
+            expect(preview.amount0).to.be.closeTo(amounts.amount0, 10);
+            expect(preview.amount1).to.be.closeTo(amounts.amount1, 10);
+          });
+
+          it("Should preview the amounts of a burn zapping out", async () => {
+            const burnAmount = (
+              await grizzlyVault.balanceOf(deployerGrizzly.address)
+            ).div(1000);
 
+            const preview0 = await grizzlyVault.callStatic.previewBurn(
+              burnAmount,
+              0
+            );
+            const amounts0 = await grizzlyVault.callStatic.burn(
+              burnAmount,
+              0,
+              0,
+              deployerGrizzly.address
+            );
+
+            expect(preview0.amount1).to.be.eq(amounts0.amount1);
+            expect(preview0.amount0).to.be.closeTo(
+              amounts0.amount0,
+              amounts0.amount0.div(1000)
+            );
+
+            const preview1 = await grizzlyVault.callStatic.previewBurn(
+              burnAmount,
+              1
+            );
+            const amounts1 = await grizzlyVault.callStatic.burn(
+              burnAmount,
+              0,
+              1,
+              deployerGrizzly.address
+            );
+
+            expect(preview1.amount0).to.be.eq(amounts1.amount0);
+            expect(preview1.amount1).to.be.closeTo(
+              amounts1.amount1,
+              amounts1.amount1.div(1000)
+            );
+          });
+
+          it("Should preview zero amounts without shares", async () => {
+            await grizzlyVault.burn(
+              await grizzlyVault.balanceOf(deployerGrizzly.address),
+              0,
+              2,
+              deployerGrizzly.address
+            );
+
+            const preview = await grizzlyVault.callStatic.previewBurn(
+              ethers.utils.parseEther("1.0"),
+              0
+            );
+
+            expect(preview.amount0).to.be.eq(0);
+            expect(preview.amount1).to.be.eq(0);
+          });
+        });
         describe("Get position id", () => {
           it("Should get the correct id", async () => {
             const id = await grizzlyVault.getPositionID();
@@ -603,6 +937,25 @@ describe("Grizzly Vault Contracts", () => {
             expect(id).to.be.eq(code);
           });
         });
+        describe("Oracle ready", () => {
+          it("Should be ready once the observations cover the interval", async () => {
+            // The pool was just initialized
+            expect(await grizzlyVault.isOracleReady()).to.be.eq(false);
+
+            await helpers.time.increase(300);
+            expect(await grizzlyVault.isOracleReady()).to.be.eq(true);
+          });
+        });
+        describe("Delegate view", () => {
+          it("Should only be called by the vault", async () => {
+            const data =
+              grizzlyVault.interface.encodeFunctionData("estimateFees");
+
+            await expect(
+              grizzlyVault.connect(user).delegateView(data)
+            ).to.be.revertedWith("not authorized");
+          });
+        });
       });
 
       describe("User Functions", () => {
@@ -792,83 +1145,312 @@ describe("Grizzly Vault Contracts", () => {
           });
         });
 
-        describe("Burn", () => {
-          let mintAmount: BigNumber;
-          let amount0: BigNumber;
-          let amount1: BigNumber;
-          const defaultMaxSlippage = BigNumber.from("5000");
+        describe("Deposit", () => {
+          const amount0Max = ethers.utils.parseEther("1.0");
+          const amount1Max = ethers.utils.parseEther("1.0");
+          let deadline: number;
 
           beforeEach(async () => {
-            // Deployer loads the pool with some tokens
-            const amount0MaxDep = ethers.utils.parseEther("100");
-            const amount1MaxDep = ethers.utils.parseEther("100");
+            deadline = (await helpers.time.latest()) + 300;
 
-            const amountsDep = await grizzlyVault.getMintAmounts(
-              amount0MaxDep,
-              amount1MaxDep
+            await token0
+              .connect(user)
+              .approve(grizzlyVault.address, amount0Max);
+            await token1
+              .connect(user)
+              .approve(grizzlyVault.address, amount1Max);
+          });
+
+          it("Should revert when deadline has passed", async () => {
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .deposit(
+                  amount0Max,
+                  amount1Max,
+                  0,
+                  user.address,
+                  deadline - 600
+                )
+            ).to.be.revertedWith("expired");
+          });
+
+          it("Should revert when shares are below minimum", async () => {
+            const amounts = await grizzlyVault.getMintAmounts(
+              amount0Max,
+              amount1Max
             );
 
-            token0.approve(grizzlyVault.address, amountsDep.amount0);
-            token1.approve(grizzlyVault.address, amountsDep.amount1);
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .deposit(
+                  amount0Max,
+                  amount1Max,
+                  amounts.mintAmount.add(1),
+                  user.address,
+                  deadline
+                )
+            ).to.be.revertedWith("shares below min");
+          });
 
+          it("Should revert when price moved against minimum shares", async () => {
+            // Deployer loads the pool so shares are priced from balances
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("100"),
+              ethers.utils.parseEther("100")
+            );
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
             await grizzlyVault.mint(
               amountsDep.mintAmount,
               deployerGrizzly.address
             );
 
-            // We mint some tokens to be burned after
-            const amount0Max = ethers.utils.parseEther("1.0");
-            const amount1Max = ethers.utils.parseEther("1.0");
             const amounts = await grizzlyVault.getMintAmounts(
               amount0Max,
               amount1Max
             );
-            mintAmount = amounts.mintAmount;
-            amount0 = amounts.amount0;
-            amount1 = amounts.amount1;
-
-            await token0.connect(user).approve(grizzlyVault.address, amount0);
-            await token1.connect(user).approve(grizzlyVault.address, amount1);
-
-            await grizzlyVault.connect(user).mint(mintAmount, user.address);
-          });
 
-          it("Should revert if burn amount is 0", async () => {
-            await expect(
-              grizzlyVault.burn(
-                BigNumber.from(0),
-                defaultMaxSlippage,
-                0,
-                user.address
-              )
-            ).to.be.revertedWith("burn 0");
-          });
+            // A swap lands between quote and deposit
+            await swapTest.swap(
+              uniswapPool.address,
+              true,
+              ethers.utils.parseEther("10"),
+              100000
+            );
 
-          it("Should revert if user does not have enough LP tokens", async () => {
-            const burnAmount = mintAmount.add(1);
             await expect(
               grizzlyVault
                 .connect(user)
-                .burn(burnAmount, defaultMaxSlippage, 0, user.address)
-            ).to.be.revertedWith("ERC20: burn amount exceeds balance");
+                .deposit(
+                  amount0Max,
+                  amount1Max,
+                  amounts.mintAmount,
+                  user.address,
+                  deadline
+                )
+            ).to.be.revertedWith("shares below min");
           });
 
-          it("Should burn and receive both tokens", async () => {
+          it("Should correctly deposit", async () => {
             const token0BalanceBefore = await token0.balanceOf(user.address);
             const token1BalanceBefore = await token1.balanceOf(user.address);
 
-            await grizzlyVault
-              .connect(user)
-              .burn(mintAmount, 0, 2, user.address);
+            const amounts = await grizzlyVault.getMintAmounts(
+              amount0Max,
+              amount1Max
+            );
 
-            const lpBalanceAfter = await grizzlyVault.balanceOf(user.address);
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .deposit(
+                  amount0Max,
+                  amount1Max,
+                  amounts.mintAmount,
+                  user.address,
+                  deadline
+                )
+            ).to.emit(grizzlyVault, "Minted");
+
+            // Only the amounts needed were pulled from the user
             const token0BalanceAfter = await token0.balanceOf(user.address);
             const token1BalanceAfter = await token1.balanceOf(user.address);
+            const lpBalanceAfter = await grizzlyVault.balanceOf(user.address);
+
+            expect(lpBalanceAfter).to.be.eq(amounts.mintAmount);
+            expect(token0BalanceAfter).to.be.eq(
+              token0BalanceBefore.sub(amounts.amount0)
+            );
+            expect(token1BalanceAfter).to.be.eq(
+              token1BalanceBefore.sub(amounts.amount1)
+            );
+            expect(amounts.amount0).to.be.lte(amount0Max);
+            expect(amounts.amount1).to.be.lte(amount1Max);
+          });
+        });
+
+        describe("Mint with token", () => {
+          const amountIn = ethers.utils.parseEther("1.0");
+
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("100"),
+              ethers.utils.parseEther("100")
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            await token0.connect(user).approve(grizzlyVault.address, amountIn);
+            await token1.connect(user).approve(grizzlyVault.address, amountIn);
+          });
+
+          it("Should revert with wrong parameters", async () => {
+            await expect(
+              grizzlyVault.connect(user).mintWithToken(0, 0, 0, user.address)
+            ).to.be.revertedWith("mint 0");
+
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .mintWithToken(2, amountIn, 0, user.address)
+            ).to.be.revertedWith("wrong token index");
+
+            const amounts = await grizzlyVault.getMintAmounts(
+              amountIn,
+              amountIn
+            );
+
+            // Depositing only one token can not mint as many shares as both
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .mintWithToken(0, amountIn, amounts.mintAmount, user.address)
+            ).to.be.revertedWith("shares below min");
+          });
+
+          it("Should correctly mint with token0", async () => {
+            const token0BalanceBefore = await token0.balanceOf(user.address);
+            const token1BalanceBefore = await token1.balanceOf(user.address);
+
+            const amounts = await grizzlyVault.getMintAmounts(
+              amountIn.div(2),
+              amountIn.div(2)
+            );
+
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .mintWithToken(
+                  0,
+                  amountIn,
+                  amounts.mintAmount.mul(99).div(100),
+                  user.address
+                )
+            ).to.emit(grizzlyVault, "Minted");
+
+            const token0BalanceAfter = await token0.balanceOf(user.address);
+            const token1BalanceAfter = await token1.balanceOf(user.address);
+            const lpBalanceAfter = await grizzlyVault.balanceOf(user.address);
+
+            expect(lpBalanceAfter).to.be.gt(
+              amounts.mintAmount.mul(99).div(100)
+            );
+            // At most amountIn was taken from the user and only dust is sent back
+            expect(token0BalanceBefore.sub(token0BalanceAfter)).to.be.lte(
+              amountIn
+            );
+            expect(token0BalanceBefore.sub(token0BalanceAfter)).to.be.gt(
+              amountIn.mul(99).div(100)
+            );
+            expect(token1BalanceAfter).to.be.gte(token1BalanceBefore);
+          });
+
+          it("Should correctly mint with token1", async () => {
+            const token0BalanceBefore = await token0.balanceOf(user.address);
+            const token1BalanceBefore = await token1.balanceOf(user.address);
+
+            await grizzlyVault
+              .connect(user)
+              .mintWithToken(1, amountIn, 0, user.address);
+
+            const token0BalanceAfter = await token0.balanceOf(user.address);
+            const token1BalanceAfter = await token1.balanceOf(user.address);
+            const lpBalanceAfter = await grizzlyVault.balanceOf(user.address);
+
+            expect(lpBalanceAfter).to.be.gt(BigNumber.from(0));
+            expect(token1BalanceBefore.sub(token1BalanceAfter)).to.be.lte(
+              amountIn
+            );
+            expect(token0BalanceAfter).to.be.gte(token0BalanceBefore);
+          });
+        });
+
+        describe("Burn", () => {
+          let mintAmount: BigNumber;
+          let amount0: BigNumber;
+          let amount1: BigNumber;
+          const defaultMaxSlippage = BigNumber.from("5000");
+
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amount0MaxDep = ethers.utils.parseEther("100");
+            const amount1MaxDep = ethers.utils.parseEther("100");
+
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              amount0MaxDep,
+              amount1MaxDep
+            );
+
+            token0.approve(grizzlyVault.address, amountsDep.amount0);
+            token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            // We mint some tokens to be burned after
+            const amount0Max = ethers.utils.parseEther("1.0");
+            const amount1Max = ethers.utils.parseEther("1.0");
+            const amounts = await grizzlyVault.getMintAmounts(
+              amount0Max,
+              amount1Max
+            );
+            mintAmount = amounts.mintAmount;
+            amount0 = amounts.amount0;
+            amount1 = amounts.amount1;
+
+            await token0.connect(user).approve(grizzlyVault.address, amount0);
+            await token1.connect(user).approve(grizzlyVault.address, amount1);
+
+            await grizzlyVault.connect(user).mint(mintAmount, user.address);
+          });
+
+          it("Should revert if burn amount is 0", async () => {
+            await expect(
+              grizzlyVault.burn(
+                BigNumber.from(0),
+                defaultMaxSlippage,
+                0,
+                user.address
+              )
+            ).to.be.revertedWith("burn 0");
+          });
+
+          it("Should revert if user does not have enough LP tokens", async () => {
+            const burnAmount = mintAmount.add(1);
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .burn(burnAmount, defaultMaxSlippage, 0, user.address)
+            ).to.be.revertedWith("ERC20: burn amount exceeds balance");
+          });
+
+          it("Should burn and receive both tokens", async () => {
+            const token0BalanceBefore = await token0.balanceOf(user.address);
+            const token1BalanceBefore = await token1.balanceOf(user.address);
+
+            await grizzlyVault
+              .connect(user)
+              .burn(mintAmount, 0, 2, user.address);
+
+            const lpBalanceAfter = await grizzlyVault.balanceOf(user.address);
+            const token0BalanceAfter = await token0.balanceOf(user.address);
+            const token1BalanceAfter = await token1.balanceOf(user.address);
+
+            console.log("token0BalanceAfter", token0BalanceAfter.toString());
+
+            expect(lpBalanceAfter).to.be.eq(BigNumber.from(0));
 
-            console.log("token0BalanceAfter", token0BalanceAfter.toString());
-
-            expect(lpBalanceAfter).to.be.eq(BigNumber.from(0));
-
             // We compare deltas with initial amount
             expect(token0BalanceAfter.sub(token0BalanceBefore)).to.be.gt(
               amount0.mul(999).div(1000)
@@ -973,97 +1555,432 @@ describe("Grizzly Vault Contracts", () => {
               amount1
             );
           });
-        });
-      });
 
-      describe("External manager functions", () => {
-        describe("Update config parameters", () => {
-          it("Should revert if not manager", async () => {
-            const newOracleSlippage = 3000;
-            const newOracleSlippageInterval = 10800; //3 minutes
-            const newTreasury = deployerGrizzly.address;
+          it("Should revert burn with min amounts when deadline has passed", async () => {
+            const deadline = (await helpers.time.latest()) - 1;
 
-            // run as deployer
             await expect(
-              grizzlyVault.updateConfigParams(
-                newOracleSlippage,
-                newOracleSlippageInterval,
-                newTreasury
-              )
-            ).to.be.revertedWith("Ownable: caller is not the manager");
+              grizzlyVault
+                .connect(user)
+                .burnWithMinAmounts(
+                  mintAmount,
+                  0,
+                  2,
+                  0,
+                  0,
+                  user.address,
+                  deadline
+                )
+            ).to.be.revertedWith("expired");
+          });
 
-            // run as user
+          it("Should revert burn with min amounts when receiving less than minimum", async () => {
+            const deadline = (await helpers.time.latest()) + 300;
+
+            // Amounts deposited cannot be withdrawn entirely due to rounding
             await expect(
               grizzlyVault
                 .connect(user)
-                .updateConfigParams(
-                  newOracleSlippage,
-                  newOracleSlippageInterval,
-                  newTreasury
+                .burnWithMinAmounts(
+                  mintAmount,
+                  0,
+                  2,
+                  amount0,
+                  amount1.mul(2),
+                  user.address,
+                  deadline
                 )
-            ).to.be.revertedWith("Ownable: caller is not the manager");
-          });
-          it("Should revert with wrong parameters", async () => {
-            const newOracleSlippage = BigNumber.from("1000001");
-            const newOracleSlippageInterval = 10800; //3 minutes
-            const newTreasury = deployerGrizzly.address;
+            ).to.be.revertedWith("amounts below min");
+
+            // A swap moves the price before zapping out to token0
+            await swapTest.swap(
+              uniswapPool.address,
+              false,
+              ethers.utils.parseEther("10"),
+              100000
+            );
 
             await expect(
               grizzlyVault
-                .connect(manager)
-                .updateConfigParams(
-                  newOracleSlippage,
-                  newOracleSlippageInterval,
-                  newTreasury
+                .connect(user)
+                .burnWithMinAmounts(
+                  mintAmount,
+                  defaultMaxSlippage,
+                  0,
+                  amount0.add(amount1),
+                  0,
+                  user.address,
+                  deadline
                 )
-            ).to.be.revertedWith("slippage too high");
+            ).to.be.revertedWith("amounts below min");
           });
-          it("Should correctly update parameters", async () => {
-            const newOracleSlippage = 3000;
-            const newOracleSlippageInterval = 10800; //3 minutes
-            const newTreasury = deployerGrizzly.address;
 
-            // update parameters and check event
+          it("Should burn with min amounts and receive both tokens", async () => {
+            const deadline = (await helpers.time.latest()) + 300;
+            const token0BalanceBefore = await token0.balanceOf(user.address);
+            const token1BalanceBefore = await token1.balanceOf(user.address);
+
+            const minAmount0 = amount0.mul(999).div(1000);
+            const minAmount1 = amount1.mul(999).div(1000);
+
             await expect(
               grizzlyVault
-                .connect(manager)
-                .updateConfigParams(
-                  newOracleSlippage,
-                  newOracleSlippageInterval,
-                  newTreasury
+                .connect(user)
+                .burnWithMinAmounts(
+                  mintAmount,
+                  0,
+                  2,
+                  minAmount0,
+                  minAmount1,
+                  user.address,
+                  deadline
                 )
-            )
-              .to.be.emit(grizzlyVault, "UpdateGrizzlyParams")
-              .withArgs(newOracleSlippage, newOracleSlippageInterval);
+            ).to.emit(grizzlyVault, "Burned");
 
-            // Check the parameters correctly changed
-            const oracleSlippage = await grizzlyVault.oracleSlippage();
-            const oracleSlippageInterval =
-              await grizzlyVault.oracleSlippageInterval();
-            const managerTreasury = await grizzlyVault.managerTreasury();
+            const lpBalanceAfter = await grizzlyVault.balanceOf(user.address);
+            const token0BalanceAfter = await token0.balanceOf(user.address);
+            const token1BalanceAfter = await token1.balanceOf(user.address);
 
-            expect(oracleSlippage).to.be.eq(newOracleSlippage);
-            expect(oracleSlippageInterval).to.be.eq(newOracleSlippageInterval);
-            expect(managerTreasury).to.be.eq(newTreasury);
+            expect(lpBalanceAfter).to.be.eq(BigNumber.from(0));
+            expect(token0BalanceAfter.sub(token0BalanceBefore)).to.be.gte(
+              minAmount0
+            );
+            expect(token1BalanceAfter.sub(token1BalanceBefore)).to.be.gte(
+              minAmount1
+            );
           });
         });
 
-        describe("Set manager fee", () => {
-          it("Should revert if not manager", async () => {
-            const managerFee = 3000;
-
-            // run as deployer
-            await expect(
-              grizzlyVault.setManagerFee(managerFee)
-            ).to.be.revertedWith("Ownable: caller is not the manager");
+        describe("Withdraw exact", () => {
+          let mintAmount: BigNumber;
 
-            // run as user
-            await expect(
-              grizzlyVault.connect(user).setManagerFee(managerFee)
-            ).to.be.revertedWith("Ownable: caller is not the manager");
-          });
-          it("Should revert with wrong parameters", async () => {
-            const managerFee = BigNumber.from("1000001");
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("100"),
+              ethers.utils.parseEther("100")
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            // We mint some tokens to be withdrawn after
+            const amounts = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("1.0"),
+              ethers.utils.parseEther("1.0")
+            );
+            mintAmount = amounts.mintAmount;
+
+            await token0
+              .connect(user)
+              .approve(grizzlyVault.address, amounts.amount0);
+            await token1
+              .connect(user)
+              .approve(grizzlyVault.address, amounts.amount1);
+
+            await grizzlyVault.connect(user).mint(mintAmount, user.address);
+          });
+
+          it("Should revert when more shares than max are needed", async () => {
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .withdrawExact(
+                  ethers.utils.parseEther("0.5"),
+                  0,
+                  mintAmount.div(4),
+                  user.address
+                )
+            ).to.be.revertedWith("shares above max");
+          });
+
+          it("Should revert when user does not have enough LP tokens", async () => {
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .withdrawExact(
+                  ethers.utils.parseEther("2.0"),
+                  0,
+                  ethers.constants.MaxUint256,
+                  user.address
+                )
+            ).to.be.revertedWith("ERC20: burn amount exceeds balance");
+          });
+
+          it("Should withdraw the requested amounts", async () => {
+            const amount0Out = ethers.utils.parseEther("0.5");
+            const amount1Out = ethers.utils.parseEther("0.25");
+
+            const token0BalanceBefore = await token0.balanceOf(user.address);
+            const token1BalanceBefore = await token1.balanceOf(user.address);
+
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .withdrawExact(amount0Out, amount1Out, mintAmount, user.address)
+            ).to.emit(grizzlyVault, "Burned");
+
+            const lpBalanceAfter = await grizzlyVault.balanceOf(user.address);
+            const token0BalanceAfter = await token0.balanceOf(user.address);
+            const token1BalanceAfter = await token1.balanceOf(user.address);
+
+            // About half of the shares are burned for half of token0
+            expect(lpBalanceAfter).to.be.gt(mintAmount.mul(49).div(100));
+            expect(lpBalanceAfter).to.be.lt(mintAmount.mul(51).div(100));
+
+            // Withdrawn amounts match the request up to the rounding margin
+            expect(token0BalanceAfter.sub(token0BalanceBefore)).to.be.gte(
+              amount0Out
+            );
+            expect(token0BalanceAfter.sub(token0BalanceBefore)).to.be.lte(
+              amount0Out.add(20)
+            );
+            expect(token1BalanceAfter.sub(token1BalanceBefore)).to.be.gte(
+              amount1Out
+            );
+          });
+        });
+
+        describe("Permit", () => {
+          let mintAmount: BigNumber;
+
+          const emptyPermit = {
+            value: 0,
+            deadline: 0,
+            v: 0,
+            r: ethers.constants.HashZero,
+            s: ethers.constants.HashZero,
+          };
+
+          const signPermit = async (
+            owner: SignerWithAddress,
+            spender: string,
+            value: BigNumber
+          ) => {
+            const { chainId } = await ethers.provider.getNetwork();
+            const deadline = ethers.constants.MaxUint256;
+            const signature = await owner._signTypedData(
+              {
+                name: await grizzlyVault.name(),
+                version: "1",
+                chainId,
+                verifyingContract: grizzlyVault.address,
+              },
+              {
+                Permit: [
+                  { name: "owner", type: "address" },
+                  { name: "spender", type: "address" },
+                  { name: "value", type: "uint256" },
+                  { name: "nonce", type: "uint256" },
+                  { name: "deadline", type: "uint256" },
+                ],
+              },
+              {
+                owner: owner.address,
+                spender,
+                value,
+                nonce: await grizzlyVault.nonces(owner.address),
+                deadline,
+              }
+            );
+            const { v, r, s } = ethers.utils.splitSignature(signature);
+            return { value, deadline, v, r, s };
+          };
+
+          beforeEach(async () => {
+            const amounts = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("1.0"),
+              ethers.utils.parseEther("1.0")
+            );
+            mintAmount = amounts.mintAmount;
+
+            await token0
+              .connect(user)
+              .approve(grizzlyVault.address, amounts.amount0);
+            await token1
+              .connect(user)
+              .approve(grizzlyVault.address, amounts.amount1);
+          });
+
+          it("Should mint using existing allowances when tokens do not support permit", async () => {
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .mintWithPermit(
+                  mintAmount,
+                  user.address,
+                  emptyPermit,
+                  emptyPermit
+                )
+            ).to.emit(grizzlyVault, "Minted");
+
+            expect(await grizzlyVault.balanceOf(user.address)).to.be.eq(
+              mintAmount
+            );
+          });
+
+          it("Should approve vault tokens with permit", async () => {
+            const permit = await signPermit(user, bot.address, mintAmount);
+
+            await grizzlyVault.permit(
+              user.address,
+              bot.address,
+              permit.value,
+              permit.deadline,
+              permit.v,
+              permit.r,
+              permit.s
+            );
+
+            expect(
+              await grizzlyVault.allowance(user.address, bot.address)
+            ).to.be.eq(mintAmount);
+            expect(await grizzlyVault.nonces(user.address)).to.be.eq(1);
+          });
+
+          it("Should burn on behalf of owner with permit", async () => {
+            await grizzlyVault.connect(user).mint(mintAmount, user.address);
+
+            const permit = await signPermit(user, bot.address, mintAmount);
+
+            const token0BalanceBefore = await token0.balanceOf(user.address);
+
+            await expect(
+              grizzlyVault
+                .connect(bot)
+                .burnWithPermit(
+                  user.address,
+                  mintAmount,
+                  0,
+                  2,
+                  user.address,
+                  permit
+                )
+            ).to.emit(grizzlyVault, "Burned");
+
+            expect(await grizzlyVault.balanceOf(user.address)).to.be.eq(0);
+            expect(await token0.balanceOf(user.address)).to.be.gt(
+              token0BalanceBefore
+            );
+            expect(
+              await grizzlyVault.allowance(user.address, bot.address)
+            ).to.be.eq(0);
+          });
+
+          it("Should revert burn on behalf of owner with invalid permit", async () => {
+            await grizzlyVault.connect(user).mint(mintAmount, user.address);
+
+            const permit = await signPermit(bot, bot.address, mintAmount);
+
+            await expect(
+              grizzlyVault
+                .connect(bot)
+                .burnWithPermit(
+                  user.address,
+                  mintAmount,
+                  0,
+                  2,
+                  user.address,
+                  permit
+                )
+            ).to.be.revertedWith("ERC20Permit: invalid signature");
+          });
+        });
+      });
+
+      describe("External manager functions", () => {
+        describe("Update config parameters", () => {
+          it("Should revert if not manager", async () => {
+            const newOracleSlippage = 3000;
+            const newOracleSlippageInterval = 10800; //3 minutes
+            const newTreasury = deployerGrizzly.address;
+
+            // run as deployer
+            await expect(
+              grizzlyVault.updateConfigParams(
+                newOracleSlippage,
+                newOracleSlippageInterval,
+                newTreasury
+              )
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+
+            // run as user
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .updateConfigParams(
+                  newOracleSlippage,
+                  newOracleSlippageInterval,
+                  newTreasury
+                )
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+          });
+          it("Should revert with wrong parameters", async () => {
+            const newOracleSlippage = BigNumber.from("1000001");
+            const newOracleSlippageInterval = 10800; //3 minutes
+            const newTreasury = deployerGrizzly.address;
+
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                .updateConfigParams(
+                  newOracleSlippage,
+                  newOracleSlippageInterval,
+                  newTreasury
+                )
+            ).to.be.revertedWith("slippage too high");
+          });
+          it("Should correctly update parameters", async () => {
+            const newOracleSlippage = 3000;
+            const newOracleSlippageInterval = 10800; //3 minutes
+            const newTreasury = deployerGrizzly.address;
+
+            // update parameters and check event
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                .updateConfigParams(
+                  newOracleSlippage,
+                  newOracleSlippageInterval,
+                  newTreasury
+                )
+            )
+              .to.be.emit(grizzlyVault, "UpdateGrizzlyParams")
+              .withArgs(newOracleSlippage, newOracleSlippageInterval);
+
+            // Check the parameters correctly changed
+            const oracleSlippage = await grizzlyVault.oracleSlippage();
+            const oracleSlippageInterval =
+              await grizzlyVault.oracleSlippageInterval();
+            const managerTreasury = await grizzlyVault.managerTreasury();
+
+            expect(oracleSlippage).to.be.eq(newOracleSlippage);
+            expect(oracleSlippageInterval).to.be.eq(newOracleSlippageInterval);
+            expect(managerTreasury).to.be.eq(newTreasury);
+          });
+        });
+
+        describe("Set manager fee", () => {
+          it("Should revert if not manager", async () => {
+            const managerFee = 3000;
+
+            // run as deployer
+            await expect(
+              grizzlyVault.setManagerFee(managerFee)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+
+            // run as user
+            await expect(
+              grizzlyVault.connect(user).setManagerFee(managerFee)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+          });
+          it("Should revert with wrong parameters", async () => {
+            const managerFee = BigNumber.from("1000001");
 
             // try with fee 0
             await expect(
@@ -1089,6 +2006,115 @@ describe("Grizzly Vault Contracts", () => {
             const fee = await grizzlyVault.managerFee();
             expect(fee).to.be.eq(managerFee);
           });
+
+          describe("Manager fee timelock", () => {
+            beforeEach(async () => {
+              // Deployer loads the pool with some tokens
+              const amountsDep = await grizzlyVault.getMintAmounts(
+                ethers.utils.parseEther("100"),
+                ethers.utils.parseEther("100")
+              );
+
+              await token0.approve(grizzlyVault.address, amountsDep.amount0);
+              await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+              await grizzlyVault.mint(
+                amountsDep.mintAmount,
+                deployerGrizzly.address
+              );
+            });
+
+            it("Should queue fee increases", async () => {
+              const managerFee = 30000;
+
+              await expect(
+                grizzlyVault.connect(manager).setManagerFee(managerFee)
+              ).to.emit(grizzlyVault, "ManagerFeeQueued");
+
+              // Fee is not applied until the notice period is over
+              expect(await grizzlyVault.managerFee()).to.be.eq(0);
+              expect(await grizzlyVault.pendingManagerFee()).to.be.eq(
+                managerFee
+              );
+              await expect(grizzlyVault.applyManagerFee()).to.be.revertedWith(
+                "fee timelock"
+              );
+
+              await helpers.time.increase(3 * 24 * 3600);
+
+              // Anyone can apply it afterwards
+              await expect(grizzlyVault.connect(user).applyManagerFee())
+                .to.emit(grizzlyVault, "SetManagerFee")
+                .withArgs(managerFee);
+
+              expect(await grizzlyVault.managerFee()).to.be.eq(managerFee);
+              expect(await grizzlyVault.pendingManagerFee()).to.be.eq(0);
+              await expect(grizzlyVault.applyManagerFee()).to.be.revertedWith(
+                "fee timelock"
+              );
+            });
+
+            it("Should apply fee decreases immediately", async () => {
+              await grizzlyVault.connect(manager).setManagerFee(30000);
+              await helpers.time.increase(3 * 24 * 3600);
+              await grizzlyVault.applyManagerFee();
+
+              // A decrease also cancels a queued increase
+              await grizzlyVault.connect(manager).setManagerFee(50000);
+              await expect(grizzlyVault.connect(manager).setManagerFee(10000))
+                .to.emit(grizzlyVault, "SetManagerFee")
+                .withArgs(10000);
+
+              expect(await grizzlyVault.managerFee()).to.be.eq(10000);
+              expect(await grizzlyVault.pendingManagerFee()).to.be.eq(0);
+            });
+
+            it("Should credit the fees earned before a change at the previous fee", async () => {
+              await grizzlyVault.connect(manager).setManagerFee(30000);
+              await helpers.time.increase(3 * 24 * 3600);
+              await grizzlyVault.applyManagerFee();
+
+              // We make some swaps to generate fees
+              await swapTest.washTrade(
+                uniswapPool.address,
+                50000,
+                10000,
+                10,
+                2
+              );
+              const fees = await grizzlyVault.estimateFees();
+
+              await grizzlyVault.connect(manager).setManagerFee(10000);
+
+              // Manager got 3% of the fees earned, collected before the decrease
+              const expected0 = fees.token0Fee.mul(3).div(97);
+              const expected1 = fees.token1Fee.mul(3).div(97);
+              expect(await grizzlyVault.managerBalance0()).to.be.closeTo(
+                expected0,
+                expected0.div(1000)
+              );
+              expect(await grizzlyVault.managerBalance1()).to.be.closeTo(
+                expected1,
+                expected1.div(1000)
+              );
+            });
+
+            it("Should enforce the factory maximum manager fee", async () => {
+              await grizzlyVault.connect(manager).setManagerFee(30000);
+
+              await grizzlyFactory.setMaxManagerFee(20000);
+
+              await expect(
+                grizzlyVault.connect(manager).setManagerFee(30000)
+              ).to.be.revertedWith("invalid manager fee");
+
+              // Queued fee can not be applied above the new maximum
+              await helpers.time.increase(3 * 24 * 3600);
+              await expect(grizzlyVault.applyManagerFee()).to.be.revertedWith(
+                "invalid manager fee"
+              );
+            });
+          });
         });
 
         describe("Set keeper address", () => {
@@ -1174,21 +2200,1961 @@ describe("Grizzly Vault Contracts", () => {
             const slippageUserMax = 7000;
             const slippageRebalanceMax = 5550;
 
-            // update parameters
-            await grizzlyVault
-              .connect(manager)
-              .setManagerParams(slippageUserMax, slippageRebalanceMax);
+            // update parameters
+            await grizzlyVault
+              .connect(manager)
+              .setManagerParams(slippageUserMax, slippageRebalanceMax);
+
+            // Check the parameters correctly changed
+            const slippageUser = await grizzlyVault.slippageUserMax();
+            const slippageRebalance = await grizzlyVault.slippageRebalanceMax();
+
+            expect(slippageRebalance).to.be.eq(slippageRebalanceMax);
+            expect(slippageUser).to.be.eq(slippageUserMax);
+          });
+        });
+
+        describe("Executive rebalance", () => {
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amount0MaxDep = ethers.utils.parseEther("100");
+            const amount1MaxDep = ethers.utils.parseEther("100");
+
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              amount0MaxDep,
+              amount1MaxDep
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            // We give bot manager authorization
+            await grizzlyVault.connect(manager).setKeeperAddress(bot.address);
+
+            // We first make the evm go some seconds forward
+            await helpers.time.increase(300);
+          });
+          it("Should revert if not manager or strategist", async () => {
+            // run as deployer
+            await expect(
+              grizzlyVault["executiveRebalance(int24,int24,uint128)"](
+                -887220,
+                887220,
+                3000
+              )
+            ).to.be.revertedWith("not authorized");
+
+            // run as user
+            await expect(
+              grizzlyVault
+                .connect(user)
+                ["executiveRebalance(int24,int24,uint128)"](
+                  -887220,
+                  887220,
+                  3000
+                )
+            ).to.be.revertedWith("not authorized");
+
+            // run as bot
+            await expect(
+              grizzlyVault
+                .connect(bot)
+                ["executiveRebalance(int24,int24,uint128)"](
+                  -887220,
+                  887220,
+                  3000
+                )
+            ).to.be.revertedWith("not authorized");
+          });
+
+          it("Should revert with wrong parameters", async () => {
+            const id = await grizzlyVault.getPositionID();
+            const liquidity = (await uniswapPool.positions(id))._liquidity;
+
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                ["executiveRebalance(int24,int24,uint128)"](-30, 30, liquidity)
+            ).to.be.revertedWith("tickSpacing mismatch");
+
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                ["executiveRebalance(int24,int24,uint128)"](
+                  -60,
+                  60,
+                  liquidity.mul(1000)
+                )
+            ).to.be.revertedWith("min liquidity");
+          });
+
+          it("Should revert when slippage is high", async () => {
+            // We make some swaps to produce slippage
+            await swapTest.washTrade(
+              uniswapPool.address,
+              ethers.utils.parseEther("10"),
+              50000,
+              10,
+              0
+            );
+
+            const id = await grizzlyVault.getPositionID();
+            const liquidity = (await uniswapPool.positions(id))._liquidity;
+
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                ["executiveRebalance(int24,int24,uint128)"](-60, 60, liquidity)
+            ).to.be.revertedWith("high slippage");
+          });
+
+          it("Should correctly do an executive rebalance", async () => {
+            // We check the tick spacing
+            const tickSpacing = await uniswapPool.tickSpacing();
+
+            // We read some values from the vault
+            let id = await grizzlyVault.getPositionID();
+            const liquidity = (await uniswapPool.positions(id))._liquidity;
+
+            // We perform a rebalance on a tight interval
+            const tx = await grizzlyVault
+              .connect(manager)
+              ["executiveRebalance(int24,int24,uint128)"](
+                -2 * tickSpacing,
+                2 * tickSpacing,
+                liquidity
+              );
+
+            // Check event emission
+            const receipt = await tx.wait();
+            const events = receipt.events?.filter((x) => {
+              return x.event == "Rebalance";
+            });
+            if (!events) {
+              throw new Error("No events when rebalance");
+            }
+
+            // Read new values from the vault
+            const ticks = await grizzlyVault.baseTicks();
+            id = await grizzlyVault.getPositionID();
+            const newLiquidity = (await uniswapPool.positions(id))._liquidity;
+
+            // Check event parameters
+            const args = events[0].args;
+            if (!args) {
+              throw new Error("Event has no args");
+            }
+            expect(ticks.lowerTick).to.be.eq(args[0]);
+            expect(ticks.upperTick).to.be.eq(args[1]);
+            expect(liquidity).to.be.eq(args[2]);
+            expect(newLiquidity).to.be.eq(args[3]);
+
+            //Check change in liquidity and ticks
+            expect(newLiquidity).to.be.gt(liquidity);
+            expect(ticks.lowerTick).to.be.eq(-2 * tickSpacing);
+            expect(ticks.upperTick).to.be.eq(2 * tickSpacing);
+          });
+        });
+
+        describe("Executive rebalance with a swap", () => {
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("100"),
+              ethers.utils.parseEther("100")
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            // We first make the evm go some seconds forward
+            await helpers.time.increase(300);
+          });
+
+          it("Should revert if not manager or wrong parameters", async () => {
+            const { sqrtPriceX96 } = await uniswapPool.slot0();
+
+            await expect(
+              grizzlyVault
+                .connect(user)
+                [
+                  "executiveRebalance(int24,int24,uint128,uint256,bool,uint160)"
+                ](-600, 600, 0, 0, true, sqrtPriceX96)
+            ).to.be.revertedWith("not authorized");
+
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                [
+                  "executiveRebalance(int24,int24,uint128,uint256,bool,uint160)"
+                ](-600, 600, 0, 0, true, 0)
+            ).to.be.revertedWith("wrong price limit");
+          });
+
+          it("Should revert when the swap moves the price too much", async () => {
+            // Lowest price allowed by Uniswap
+            const minSqrtRatio = BigNumber.from("4295128740");
+
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                [
+                  "executiveRebalance(int24,int24,uint128,uint256,bool,uint160)"
+                ](
+                  -600,
+                  600,
+                  0,
+                  ethers.utils.parseEther("10"),
+                  true,
+                  minSqrtRatio
+                )
+            ).to.be.revertedWith("high slippage");
+          });
+
+          it("Should rebalance with the given swap", async () => {
+            const { sqrtPriceX96 } = await uniswapPool.slot0();
+
+            // No swap
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                [
+                  "executiveRebalance(int24,int24,uint128,uint256,bool,uint160)"
+                ](-600, 600, 0, 0, true, sqrtPriceX96)
+            )
+              .to.emit(grizzlyVault, "Rebalance")
+              .and.not.to.emit(uniswapPool, "Swap");
+
+            // Swap within the oracle check
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                [
+                  "executiveRebalance(int24,int24,uint128,uint256,bool,uint160)"
+                ](
+                  -1200,
+                  1200,
+                  0,
+                  ethers.utils.parseEther("0.1"),
+                  true,
+                  sqrtPriceX96.mul(999).div(1000)
+                )
+            )
+              .to.emit(grizzlyVault, "Rebalance")
+              .and.to.emit(uniswapPool, "Swap");
+
+            const ticks = await grizzlyVault.baseTicks();
+            expect(ticks.lowerTick).to.be.eq(-1200);
+            expect(ticks.upperTick).to.be.eq(1200);
+          });
+        });
+
+        describe("Limit position", () => {
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amount0MaxDep = ethers.utils.parseEther("100");
+            const amount1MaxDep = ethers.utils.parseEther("100");
+
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              amount0MaxDep,
+              amount1MaxDep
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            // We first make the evm go some seconds forward
+            await helpers.time.increase(300);
+          });
+
+          const getLimitLiquidity = async () => {
+            const limitTicks = await grizzlyVault.limitTicks();
+            const id = ethers.utils.solidityKeccak256(
+              ["address", "int24", "int24"],
+              [grizzlyVault.address, limitTicks.lowerTick, limitTicks.upperTick]
+            );
+            return (await uniswapPool.positions(id))._liquidity;
+          };
+
+          const rebalanceWithLeftover = async () => {
+            // We make some swaps to generate fees
+            await swapTest.washTrade(
+              uniswapPool.address,
+              ethers.utils.parseEther("0.1"),
+              10000,
+              10,
+              2
+            );
+
+            // Only token0 is added so most of it can not go to the base position
+            await token0.transfer(
+              grizzlyVault.address,
+              ethers.utils.parseEther("10")
+            );
+
+            return grizzlyVault.connect(manager).rebalance();
+          };
+
+          it("Should revert if not manager", async () => {
+            // run as deployer
+            await expect(grizzlyVault.setLimitWidth(600)).to.be.revertedWith(
+              "Ownable: caller is not the manager"
+            );
+
+            // run as user
+            await expect(
+              grizzlyVault.connect(user).setLimitWidth(600)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+          });
+
+          it("Should revert with wrong parameters", async () => {
+            const tickSpacing = await uniswapPool.tickSpacing();
+
+            await expect(
+              grizzlyVault.connect(manager).setLimitWidth(-tickSpacing)
+            ).to.be.revertedWith("wrong limit width");
+
+            await expect(
+              grizzlyVault.connect(manager).setLimitWidth(tickSpacing + 1)
+            ).to.be.revertedWith("wrong limit width");
+          });
+
+          it("Should not place a limit position by default", async () => {
+            await rebalanceWithLeftover();
+
+            const limitTicks = await grizzlyVault.limitTicks();
+            expect(limitTicks.lowerTick).to.be.eq(0);
+            expect(limitTicks.upperTick).to.be.eq(0);
+          });
+
+          it("Should park the leftovers in the limit position", async () => {
+            const tickSpacing = await uniswapPool.tickSpacing();
+            const limitWidth = 10 * tickSpacing;
+
+            await expect(
+              grizzlyVault.connect(manager).setLimitWidth(limitWidth)
+            )
+              .to.emit(grizzlyVault, "SetLimitWidth")
+              .withArgs(limitWidth);
+
+            const tx = await rebalanceWithLeftover();
+
+            // Check event emission
+            const receipt = await tx.wait();
+            const events = receipt.events?.filter((x) => {
+              return x.event == "Rebalance";
+            });
+            if (!events) {
+              throw new Error("No events when rebalance");
+            }
+
+            // Read new values from the vault
+            const limitTicks = await grizzlyVault.limitTicks();
+            const limitLiquidity = await getLimitLiquidity();
+            const { tick } = await uniswapPool.slot0();
+
+            // Check event parameters
+            const args = events[0].args;
+            if (!args) {
+              throw new Error("Event has no args");
+            }
+            expect(limitTicks.lowerTick).to.be.eq(args[4]);
+            expect(limitTicks.upperTick).to.be.eq(args[5]);
+            expect(limitLiquidity).to.be.eq(args[6]);
+
+            // The limit position only holds token0 so it is above the price
+            expect(limitLiquidity).to.be.gt(0);
+            expect(limitTicks.lowerTick).to.be.gt(tick);
+            expect(limitTicks.upperTick - limitTicks.lowerTick).to.be.eq(
+              limitWidth
+            );
+
+            // Almost all the token0 left is deployed
+            const idle0 = (await token0.balanceOf(grizzlyVault.address)).sub(
+              await grizzlyVault.managerBalance0()
+            );
+            expect(idle0).to.be.lt(ethers.utils.parseEther("0.01"));
+          });
+
+          it("Should include the limit position in balances and burns", async () => {
+            const tickSpacing = await uniswapPool.tickSpacing();
+            await grizzlyVault.connect(manager).setLimitWidth(10 * tickSpacing);
+
+            await rebalanceWithLeftover();
+
+            // Underlying balances are kept when leftovers are moved to the limit position
+            const { amount0Current, amount1Current } =
+              await grizzlyVault.getUnderlyingBalances();
+            const idle0 = (await token0.balanceOf(grizzlyVault.address)).sub(
+              await grizzlyVault.managerBalance0()
+            );
+            expect(amount0Current).to.be.gt(
+              idle0.add(ethers.utils.parseEther("10"))
+            );
+            expect(amount1Current).to.be.gt(0);
+
+            // Burning all the shares also withdraws the whole limit position
+            const balance = await grizzlyVault.balanceOf(
+              deployerGrizzly.address
+            );
+            await grizzlyVault.burn(balance, 0, 2, deployerGrizzly.address);
+
+            expect(await getLimitLiquidity()).to.be.eq(0);
+          });
+        });
+
+        describe("Emergency controls", () => {
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amount0MaxDep = ethers.utils.parseEther("100");
+            const amount1MaxDep = ethers.utils.parseEther("100");
+
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              amount0MaxDep,
+              amount1MaxDep
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            // We set bot as guardian
+            await grizzlyVault.connect(manager).setGuardian(bot.address);
+          });
+
+          it("Should revert if not manager or guardian", async () => {
+            // Only manager can set the guardian
+            await expect(
+              grizzlyVault.connect(bot).setGuardian(user.address)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+
+            await expect(
+              grizzlyVault.connect(user).setPaused(true)
+            ).to.be.revertedWith("not guardian");
+
+            await expect(
+              grizzlyVault.connect(user).emergencyWindDown()
+            ).to.be.revertedWith("not guardian");
+          });
+
+          it("Should pause and unpause mints", async () => {
+            await expect(grizzlyVault.connect(bot).setPaused(true))
+              .to.emit(grizzlyVault, "SetPaused")
+              .withArgs(true);
+            expect(await grizzlyVault.paused()).to.be.eq(true);
+
+            await expect(
+              grizzlyVault.mint(1000, deployerGrizzly.address)
+            ).to.be.revertedWith("paused");
+
+            await expect(
+              grizzlyVault.mintWithToken(0, 1000, 0, deployerGrizzly.address)
+            ).to.be.revertedWith("paused");
+
+            // Burns are never paused
+            const balance = await grizzlyVault.balanceOf(
+              deployerGrizzly.address
+            );
+            await grizzlyVault.burn(
+              balance.div(2),
+              0,
+              2,
+              deployerGrizzly.address
+            );
+
+            // Manager can unpause
+            await grizzlyVault.connect(manager).setPaused(false);
+
+            const amounts = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("1"),
+              ethers.utils.parseEther("1")
+            );
+            await token0.approve(grizzlyVault.address, amounts.amount0);
+            await token1.approve(grizzlyVault.address, amounts.amount1);
+
+            await expect(
+              grizzlyVault.mint(amounts.mintAmount, deployerGrizzly.address)
+            ).to.emit(grizzlyVault, "Minted");
+          });
+
+          it("Should wind down the vault", async () => {
+            await expect(grizzlyVault.connect(bot).emergencyWindDown()).to.emit(
+              grizzlyVault,
+              "EmergencyWindDown"
+            );
+
+            // The whole position is withdrawn and mints are paused for good
+            const id = await grizzlyVault.getPositionID();
+            expect((await uniswapPool.positions(id))._liquidity).to.be.eq(0);
+            expect(await grizzlyVault.paused()).to.be.eq(true);
+            expect(await grizzlyVault.emergency()).to.be.eq(true);
+
+            await expect(
+              grizzlyVault.connect(manager).setPaused(false)
+            ).to.be.revertedWith("emergency");
+
+            await expect(
+              grizzlyVault.connect(manager).emergencyWindDown()
+            ).to.be.revertedWith("emergency");
+
+            await expect(
+              grizzlyVault.connect(manager).rebalance()
+            ).to.be.revertedWith("emergency");
+
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                ["executiveRebalance(int24,int24,uint128)"](-60, 60, 0)
+            ).to.be.revertedWith("emergency");
+          });
+
+          it("Should burn pro-rata idle balances after wind down", async () => {
+            await grizzlyVault.connect(manager).emergencyWindDown();
+
+            const balance0 = await token0.balanceOf(grizzlyVault.address);
+            const balance1 = await token1.balanceOf(grizzlyVault.address);
+            const managerBalance0 = await grizzlyVault.managerBalance0();
+            const managerBalance1 = await grizzlyVault.managerBalance1();
+
+            const totalSupply = await grizzlyVault.totalSupply();
+            const burnAmount = totalSupply.div(2);
+
+            const expected0 = balance0
+              .sub(managerBalance0)
+              .mul(burnAmount)
+              .div(totalSupply);
+            const expected1 = balance1
+              .sub(managerBalance1)
+              .mul(burnAmount)
+              .div(totalSupply);
+
+            const preview = await grizzlyVault.callStatic.previewBurn(
+              burnAmount,
+              0
+            );
+            expect(preview.amount0).to.be.eq(expected0);
+            expect(preview.amount1).to.be.eq(expected1);
+
+            // Zap out is ignored, there is no swap in the pool
+            await expect(
+              grizzlyVault.burn(burnAmount, 0, 0, user.address)
+            ).to.emit(grizzlyVault, "Burned");
+
+            expect(await token0.balanceOf(grizzlyVault.address)).to.be.eq(
+              balance0.sub(expected0)
+            );
+            expect(await token1.balanceOf(grizzlyVault.address)).to.be.eq(
+              balance1.sub(expected1)
+            );
+          });
+        });
+
+        describe("Management fee", () => {
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amount0MaxDep = ethers.utils.parseEther("100");
+            const amount1MaxDep = ethers.utils.parseEther("100");
+
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              amount0MaxDep,
+              amount1MaxDep
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+          });
+
+          it("Should revert if not manager", async () => {
+            await expect(
+              grizzlyVault.connect(user).setManagementFee(10000)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+          });
+
+          it("Should revert with wrong parameters", async () => {
+            await expect(
+              grizzlyVault.connect(manager).setManagementFee(50001)
+            ).to.be.revertedWith("management fee too high");
+          });
+
+          it("Should not accrue fees by default", async () => {
+            await helpers.time.increase(365 * 24 * 3600);
+
+            const balance = await grizzlyVault.balanceOf(
+              deployerGrizzly.address
+            );
+            await expect(
+              grizzlyVault.burn(balance.div(2), 0, 2, deployerGrizzly.address)
+            ).to.not.emit(grizzlyVault, "ManagementFeeAccrued");
+
+            expect(await grizzlyVault.balanceOf(manager.address)).to.be.eq(0);
+          });
+
+          it("Should mint the accrued fee to the treasury", async () => {
+            const managementFee = 20000; // 2% per year
+            await expect(
+              grizzlyVault.connect(manager).setManagementFee(managementFee)
+            )
+              .to.emit(grizzlyVault, "SetManagementFee")
+              .withArgs(managementFee);
+
+            const totalSupply = await grizzlyVault.totalSupply();
+
+            await helpers.time.increase(365 * 24 * 3600);
+
+            const balance = await grizzlyVault.balanceOf(
+              deployerGrizzly.address
+            );
+            await expect(
+              grizzlyVault.burn(balance.div(2), 0, 2, deployerGrizzly.address)
+            ).to.emit(grizzlyVault, "ManagementFeeAccrued");
+
+            // Treasury (manager by default) gets 2% of the supply after a year
+            const feeShares = await grizzlyVault.balanceOf(manager.address);
+            const expected = totalSupply.mul(managementFee).div(1000000);
+            expect(feeShares).to.be.closeTo(expected, expected.div(10000));
+
+            // Fee shares are worth underlying tokens
+            const amounts = await grizzlyVault.callStatic.previewBurn(
+              feeShares,
+              2
+            );
+            expect(amounts.amount0).to.be.gt(0);
+            expect(amounts.amount1).to.be.gt(0);
+          });
+
+          it("Should preview burns with the fee shares not minted yet", async () => {
+            await grizzlyVault.connect(manager).setManagementFee(20000);
+            await helpers.time.increase(365 * 24 * 3600);
+
+            const burnAmount = (
+              await grizzlyVault.balanceOf(deployerGrizzly.address)
+            ).div(2);
+
+            const preview = await grizzlyVault.callStatic.previewBurn(
+              burnAmount,
+              2
+            );
+            const amounts = await grizzlyVault.callStatic.burn(
+              burnAmount,
+              0,
+              2,
+              deployerGrizzly.address
+            );
+
+            // The burn first mints about 2% of the supply to the treasury
+            expect(preview.amount0).to.be.closeTo(
+              amounts.amount0,
+              amounts.amount0.div(100000)
+            );
+            expect(preview.amount1).to.be.closeTo(
+              amounts.amount1,
+              amounts.amount1.div(100000)
+            );
+          });
+        });
+
+        describe("Config timelock", () => {
+          const delay = 24 * 3600;
+
+          beforeEach(async () => {
+            await grizzlyVault.connect(manager).setConfigDelay(delay);
+          });
+
+          it("Should revert if not manager", async () => {
+            await expect(
+              grizzlyVault.connect(user).setConfigDelay(0)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+
+            const data = grizzlyVault.interface.encodeFunctionData(
+              "setKeeperAddress",
+              [bot.address]
+            );
+            await expect(
+              grizzlyVault.connect(user).queueConfig(data)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .cancelConfig(ethers.utils.keccak256(data))
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+          });
+
+          it("Should revert with a delay too long", async () => {
+            const data = grizzlyVault.interface.encodeFunctionData(
+              "setConfigDelay",
+              [30 * 24 * 3600 + 1]
+            );
+            await grizzlyVault.connect(manager).queueConfig(data);
+            await helpers.time.increase(delay);
+
+            await expect(
+              grizzlyVault.connect(manager).setConfigDelay(30 * 24 * 3600 + 1)
+            ).to.be.revertedWith("delay too long");
+          });
+
+          it("Should revert changes not queued", async () => {
+            await expect(
+              grizzlyVault.connect(manager).setKeeperAddress(bot.address)
+            ).to.be.revertedWith("timelocked");
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                .updateConfigParams(10000, 0, user.address)
+            ).to.be.revertedWith("timelocked");
+            await expect(
+              grizzlyVault.connect(manager).setManagerParams(10000, 10000)
+            ).to.be.revertedWith("timelocked");
+            await expect(
+              grizzlyVault.connect(manager).setManagerFee(10000)
+            ).to.be.revertedWith("timelocked");
+            await expect(
+              grizzlyVault.connect(manager).setManagementFee(10000)
+            ).to.be.revertedWith("timelocked");
+            await expect(
+              grizzlyVault.connect(manager).setConfigDelay(0)
+            ).to.be.revertedWith("timelocked");
+            await expect(
+              grizzlyVault.connect(manager).setLimitWidth(120)
+            ).to.be.revertedWith("timelocked");
+            await expect(
+              grizzlyVault.connect(manager).setGuardian(bot.address)
+            ).to.be.revertedWith("timelocked");
+          });
+
+          it("Should remove the guardian without queueing", async () => {
+            const data = grizzlyVault.interface.encodeFunctionData(
+              "setGuardian",
+              [bot.address]
+            );
+            await grizzlyVault.connect(manager).queueConfig(data);
+            await helpers.time.increase(delay);
+            await grizzlyVault.connect(manager).setGuardian(bot.address);
+            expect(await grizzlyVault.guardian()).to.equal(bot.address);
+
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                .setGuardian(ethers.constants.AddressZero)
+            )
+              .to.emit(grizzlyVault, "SetGuardian")
+              .withArgs(ethers.constants.AddressZero);
+            expect(await grizzlyVault.guardian()).to.equal(
+              ethers.constants.AddressZero
+            );
+          });
+
+          it("Should execute a queued change after the delay", async () => {
+            const data = grizzlyVault.interface.encodeFunctionData(
+              "setKeeperAddress",
+              [bot.address]
+            );
+            const id = ethers.utils.keccak256(data);
+
+            const tx = await grizzlyVault.connect(manager).queueConfig(data);
+            const eta = (await helpers.time.latest()) + delay;
+            await expect(tx)
+              .to.emit(grizzlyVault, "ConfigQueued")
+              .withArgs(id, data, eta);
+            expect(await grizzlyVault.configQueue(id)).to.equal(eta);
+
+            await expect(
+              grizzlyVault.connect(manager).setKeeperAddress(bot.address)
+            ).to.be.revertedWith("timelocked");
+
+            await helpers.time.increase(delay);
+
+            await expect(
+              grizzlyVault.connect(manager).setKeeperAddress(bot.address)
+            )
+              .to.emit(grizzlyVault, "ConfigExecuted")
+              .withArgs(id);
+            expect(await grizzlyVault.keeperAddress()).to.equal(bot.address);
+            expect(await grizzlyVault.configQueue(id)).to.equal(0);
+
+            // A queued change can only be executed once
+            await expect(
+              grizzlyVault.connect(manager).setKeeperAddress(bot.address)
+            ).to.be.revertedWith("timelocked");
+          });
+
+          it("Should only execute the queued parameters", async () => {
+            const data = grizzlyVault.interface.encodeFunctionData(
+              "setKeeperAddress",
+              [bot.address]
+            );
+            await grizzlyVault.connect(manager).queueConfig(data);
+            await helpers.time.increase(delay);
+
+            await expect(
+              grizzlyVault.connect(manager).setKeeperAddress(user.address)
+            ).to.be.revertedWith("timelocked");
+          });
+
+          it("Should revert a queued change after its grace period", async () => {
+            const data = grizzlyVault.interface.encodeFunctionData(
+              "setKeeperAddress",
+              [bot.address]
+            );
+            await grizzlyVault.connect(manager).queueConfig(data);
+
+            // Queued changes expire 14 days after their ETA
+            await helpers.time.increase(delay + 14 * 24 * 3600 + 1);
+
+            await expect(
+              grizzlyVault.connect(manager).setKeeperAddress(bot.address)
+            ).to.be.revertedWith("config expired");
+
+            // The change has to be queued again
+            await grizzlyVault.connect(manager).queueConfig(data);
+            await helpers.time.increase(delay);
+
+            await grizzlyVault.connect(manager).setKeeperAddress(bot.address);
+            expect(await grizzlyVault.keeperAddress()).to.equal(bot.address);
+          });
+
+          it("Should cancel a queued change", async () => {
+            const data = grizzlyVault.interface.encodeFunctionData(
+              "setKeeperAddress",
+              [bot.address]
+            );
+            const id = ethers.utils.keccak256(data);
+
+            await expect(
+              grizzlyVault.connect(manager).cancelConfig(id)
+            ).to.be.revertedWith("not queued");
+
+            await grizzlyVault.connect(manager).queueConfig(data);
+            await expect(grizzlyVault.connect(manager).cancelConfig(id))
+              .to.emit(grizzlyVault, "ConfigCancelled")
+              .withArgs(id);
+
+            await helpers.time.increase(delay);
+
+            await expect(
+              grizzlyVault.connect(manager).setKeeperAddress(bot.address)
+            ).to.be.revertedWith("timelocked");
+          });
+
+          it("Should disable the timelock through a queued change", async () => {
+            const data = grizzlyVault.interface.encodeFunctionData(
+              "setConfigDelay",
+              [0]
+            );
+            await grizzlyVault.connect(manager).queueConfig(data);
+            await helpers.time.increase(delay);
+
+            await expect(grizzlyVault.connect(manager).setConfigDelay(0))
+              .to.emit(grizzlyVault, "SetConfigDelay")
+              .withArgs(0);
+
+            await grizzlyVault.connect(manager).setKeeperAddress(bot.address);
+            expect(await grizzlyVault.keeperAddress()).to.equal(bot.address);
+          });
+        });
+
+        describe("Transfer ownership", () => {
+          it("Should revert if not manager", async () => {
+            await expect(
+              grizzlyVault.connect(user).transferOwnership(user.address)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+          });
+
+          it("Should revert with wrong parameters", async () => {
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                .transferOwnership(ethers.constants.AddressZero)
+            ).to.be.revertedWith("Ownable: new manager is the zero address");
+          });
+
+          it("Should revert when not pending manager", async () => {
+            await grizzlyVault.connect(manager).transferOwnership(user.address);
+
+            await expect(
+              grizzlyVault.connect(bot).acceptOwnership()
+            ).to.be.revertedWith("Ownable: caller is not the new manager");
+          });
+
+          it("Should transfer ownership in two steps", async () => {
+            await expect(
+              grizzlyVault.connect(manager).transferOwnership(bot.address)
+            )
+              .to.emit(grizzlyVault, "OwnershipTransferStarted")
+              .withArgs(manager.address, bot.address);
+
+            // A pending transfer can be replaced before it is accepted
+            await grizzlyVault.connect(manager).transferOwnership(user.address);
+            expect(await grizzlyVault.manager()).to.be.eq(manager.address);
+            expect(await grizzlyVault.pendingManager()).to.be.eq(user.address);
+
+            await expect(
+              grizzlyVault.connect(bot).acceptOwnership()
+            ).to.be.revertedWith("Ownable: caller is not the new manager");
+
+            await expect(grizzlyVault.connect(user).acceptOwnership())
+              .to.emit(grizzlyVault, "OwnershipTransferred")
+              .withArgs(manager.address, user.address);
+            expect(await grizzlyVault.manager()).to.be.eq(user.address);
+            expect(await grizzlyVault.pendingManager()).to.be.eq(
+              ethers.constants.AddressZero
+            );
+
+            await expect(
+              grizzlyVault.connect(manager).setLimitWidth(0)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+          });
+
+          it("Should clear the pending manager on renounce", async () => {
+            await grizzlyVault.connect(manager).transferOwnership(user.address);
+            await grizzlyVault.connect(manager).renounceOwnership();
+
+            expect(await grizzlyVault.manager()).to.be.eq(
+              ethers.constants.AddressZero
+            );
+            await expect(
+              grizzlyVault.connect(user).acceptOwnership()
+            ).to.be.revertedWith("Ownable: caller is not the new manager");
+          });
+        });
+
+        describe("Roles", () => {
+          let keeperRole: string;
+          let strategistRole: string;
+          let treasuryRole: string;
+
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amount0MaxDep = ethers.utils.parseEther("100");
+            const amount1MaxDep = ethers.utils.parseEther("100");
+
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              amount0MaxDep,
+              amount1MaxDep
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            keeperRole = await grizzlyVault.KEEPER_ROLE();
+            strategistRole = await grizzlyVault.STRATEGIST_ROLE();
+            treasuryRole = await grizzlyVault.TREASURY_ROLE();
+
+            // We first make the evm go some seconds forward
+            await helpers.time.increase(300);
+          });
+
+          it("Should revert if not manager", async () => {
+            await expect(
+              grizzlyVault.connect(user).grantRole(keeperRole, user.address)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+
+            await expect(
+              grizzlyVault.connect(user).revokeRole(keeperRole, user.address)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+
+            await expect(
+              grizzlyVault.connect(user).setStrategistTickRange(600)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+          });
+
+          it("Should revert with wrong parameters", async () => {
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                .grantRole(ethers.utils.id("ADMIN_ROLE"), user.address)
+            ).to.be.revertedWith("wrong role");
+
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                .grantRole(keeperRole, ethers.constants.AddressZero)
+            ).to.be.revertedWith("zeroAddress");
+
+            await expect(
+              grizzlyVault.connect(manager).revokeRole(keeperRole, user.address)
+            ).to.be.revertedWith("no role");
+
+            await expect(
+              grizzlyVault.connect(manager).setStrategistTickRange(-1)
+            ).to.be.revertedWith("wrong strategist range");
+          });
+
+          it("Should let several keepers rebalance", async () => {
+            await expect(
+              grizzlyVault.connect(manager).grantRole(keeperRole, user.address)
+            )
+              .to.emit(grizzlyVault, "RoleGranted")
+              .withArgs(keeperRole, user.address);
+            await grizzlyVault
+              .connect(manager)
+              .grantRole(keeperRole, bot.address);
+            expect(await grizzlyVault.hasRole(keeperRole, user.address)).to.be
+              .true;
+
+            for (const keeper of [user, bot]) {
+              await swapTest.washTrade(
+                uniswapPool.address,
+                ethers.utils.parseEther("0.1"),
+                10000,
+                10,
+                2
+              );
+              await expect(grizzlyVault.connect(keeper).rebalance()).to.emit(
+                grizzlyVault,
+                "Rebalance"
+              );
+            }
+
+            await expect(
+              grizzlyVault.connect(manager).revokeRole(keeperRole, user.address)
+            )
+              .to.emit(grizzlyVault, "RoleRevoked")
+              .withArgs(keeperRole, user.address);
+            expect(await grizzlyVault.hasRole(keeperRole, user.address)).to.be
+              .false;
+
+            await expect(
+              grizzlyVault.connect(user).rebalance()
+            ).to.be.revertedWith("not authorized");
+          });
+
+          it("Should let treasury role withdraw manager balance", async () => {
+            await expect(
+              grizzlyVault.connect(user).withdrawManagerBalance()
+            ).to.be.revertedWith("not authorized");
+
+            await grizzlyVault
+              .connect(manager)
+              .grantRole(treasuryRole, user.address);
+
+            await swapTest.washTrade(
+              uniswapPool.address,
+              ethers.utils.parseEther("0.1"),
+              10000,
+              10,
+              2
+            );
+            await grizzlyVault.connect(manager).rebalance();
+
+            const balance0Before = await token0.balanceOf(manager.address);
+            await grizzlyVault.connect(user).withdrawManagerBalance();
+
+            // Fees are still sent to managerTreasury
+            expect(await token0.balanceOf(manager.address)).to.be.gt(
+              balance0Before
+            );
+            expect(await grizzlyVault.managerBalance0()).to.be.eq(0);
+
+            // Treasury role can not rebalance
+            await expect(
+              grizzlyVault.connect(user).rebalance()
+            ).to.be.revertedWith("not authorized");
+          });
+
+          it("Should let strategist executive rebalance within range", async () => {
+            await grizzlyVault
+              .connect(manager)
+              .grantRole(strategistRole, bot.address);
+
+            // Strategists can not executive rebalance until a range is set
+            await expect(
+              grizzlyVault
+                .connect(bot)
+                ["executiveRebalance(int24,int24,uint128)"](-600, 600, 0)
+            ).to.be.revertedWith("out of strategist range");
+
+            await expect(
+              grizzlyVault.connect(manager).setStrategistTickRange(1200)
+            )
+              .to.emit(grizzlyVault, "SetStrategistTickRange")
+              .withArgs(1200);
+
+            await expect(
+              grizzlyVault
+                .connect(bot)
+                ["executiveRebalance(int24,int24,uint128)"](-1800, 600, 0)
+            ).to.be.revertedWith("out of strategist range");
+
+            await expect(
+              grizzlyVault
+                .connect(bot)
+                ["executiveRebalance(int24,int24,uint128)"](-600, 600, 0)
+            ).to.emit(grizzlyVault, "Rebalance");
+
+            const ticks = await grizzlyVault.baseTicks();
+            expect(ticks.lowerTick).to.be.eq(-600);
+            expect(ticks.upperTick).to.be.eq(600);
+
+            // Manager is not limited by the strategist range
+            await grizzlyVault
+              .connect(manager)
+              ["executiveRebalance(int24,int24,uint128)"](-887220, 887220, 0);
+          });
+        });
+        describe("Swap anchor", () => {
+          let mintAmount: BigNumber;
+
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("100"),
+              ethers.utils.parseEther("100")
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            // We mint some tokens to be burned after
+            const amounts = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("1.0"),
+              ethers.utils.parseEther("1.0")
+            );
+            mintAmount = amounts.mintAmount;
+
+            await token0
+              .connect(user)
+              .approve(grizzlyVault.address, amounts.amount0);
+            await token1
+              .connect(user)
+              .approve(grizzlyVault.address, amounts.amount1);
+
+            await grizzlyVault.connect(user).mint(mintAmount, user.address);
+
+            // We first make the evm go some seconds forward
+            await helpers.time.increase(300);
+          });
+
+          it("Should revert if not manager", async () => {
+            await expect(
+              grizzlyVault.connect(user).setSwapAnchor(1)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+          });
+
+          it("Should anchor zap out swaps to the TWAP", async () => {
+            await expect(grizzlyVault.connect(manager).setSwapAnchor(1))
+              .to.emit(grizzlyVault, "SetSwapAnchor")
+              .withArgs(1);
+            expect(await grizzlyVault.swapAnchor()).to.be.eq(1);
+
+            // The pool price is pushed down right before the burn
+            await swapTest.swap(
+              uniswapPool.address,
+              true,
+              ethers.utils.parseEther("10"),
+              100000
+            );
+
+            // Selling token0 can not move the price further from the TWAP
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .burn(mintAmount.div(2), 0, 1, user.address)
+            ).to.be.revertedWith("SPL");
+
+            // Same with the tightest of TWAP and spot limits
+            await grizzlyVault.connect(manager).setSwapAnchor(2);
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .burn(mintAmount.div(2), 0, 1, user.address)
+            ).to.be.revertedWith("SPL");
+
+            // Buying token0 is limited from the spot price
+            await grizzlyVault
+              .connect(user)
+              .burn(mintAmount.div(2), 0, 0, user.address);
+
+            // Anchored to the spot price the limit moves with the pool
+            await grizzlyVault.connect(manager).setSwapAnchor(0);
+            await grizzlyVault
+              .connect(user)
+              .burn(mintAmount.div(2), 0, 1, user.address);
+          });
+        });
+        describe("User oracle check", () => {
+          let mintAmount: BigNumber;
+
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("100"),
+              ethers.utils.parseEther("100")
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            // User approves some tokens to mint
+            const amounts = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("1.0"),
+              ethers.utils.parseEther("1.0")
+            );
+            mintAmount = amounts.mintAmount;
+
+            await token0
+              .connect(user)
+              .approve(grizzlyVault.address, ethers.utils.parseEther("2"));
+            await token1
+              .connect(user)
+              .approve(grizzlyVault.address, ethers.utils.parseEther("2"));
+
+            await grizzlyVault.connect(user).mint(mintAmount, user.address);
+
+            // We first make the evm go some seconds forward
+            await helpers.time.increase(300);
+          });
+
+          it("Should revert if not manager or wrong parameters", async () => {
+            await expect(
+              grizzlyVault.connect(user).setUserOracleSlippage(10000)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+
+            await expect(
+              grizzlyVault.connect(manager).setUserOracleSlippage(1000000)
+            ).to.be.revertedWith("slippage too high");
+          });
+
+          it("Should revert mints and burns when the price deviates from the TWAP", async () => {
+            await expect(
+              grizzlyVault.connect(manager).setUserOracleSlippage(10000)
+            )
+              .to.emit(grizzlyVault, "SetUserOracleSlippage")
+              .withArgs(10000);
+
+            // Close to the TWAP users can mint and burn
+            await grizzlyVault
+              .connect(user)
+              .burn(mintAmount.div(2), 0, 2, user.address);
+
+            // The pool price is pushed down right before the user actions
+            await swapTest.swap(
+              uniswapPool.address,
+              true,
+              ethers.utils.parseEther("10"),
+              100000
+            );
+
+            await expect(
+              grizzlyVault.connect(user).mint(mintAmount, user.address)
+            ).to.be.revertedWith("price deviation");
+
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .burn(mintAmount.div(2), 0, 2, user.address)
+            ).to.be.revertedWith("price deviation");
+
+            // Exits after an emergency wind down do not use the pool
+            await grizzlyVault.connect(manager).emergencyWindDown();
+            await grizzlyVault
+              .connect(user)
+              .burn(mintAmount.div(2), 0, 2, user.address);
+          });
+
+          it("Should not check the price when disabled", async () => {
+            await swapTest.swap(
+              uniswapPool.address,
+              true,
+              ethers.utils.parseEther("10"),
+              100000
+            );
+
+            await grizzlyVault.connect(user).mint(mintAmount, user.address);
+          });
+        });
+        describe("Price feeds", () => {
+          let feed0: MockAggregator;
+          let feed1: MockAggregator;
+
+          beforeEach(async () => {
+            feed0 = await ethers.getContract("FeedA", deployerGrizzly);
+            feed1 = await ethers.getContract("FeedB", deployerGrizzly);
+
+            // Deployer loads the pool with some tokens
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("100"),
+              ethers.utils.parseEther("100")
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            // We first make the evm go some seconds forward
+            await helpers.time.increase(300);
+          });
+
+          it("Should revert if not manager or wrong parameters", async () => {
+            await expect(
+              grizzlyVault
+                .connect(user)
+                .setPriceFeeds(feed0.address, feed1.address, 3600)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                .setPriceFeeds(
+                  ethers.constants.AddressZero,
+                  feed1.address,
+                  3600
+                )
+            ).to.be.revertedWith("wrong price feeds");
+
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                .setPriceFeeds(feed0.address, feed1.address, 0)
+            ).to.be.revertedWith("wrong price feeds");
+          });
+
+          it("Should check the pool price against the feeds", async () => {
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                .setPriceFeeds(feed0.address, feed1.address, 3600)
+            )
+              .to.emit(grizzlyVault, "SetPriceFeeds")
+              .withArgs(feed0.address, feed1.address, 3600);
+
+            // Both tokens are worth 1 USD as in the pool
+            await grizzlyVault
+              .connect(manager)
+              ["executiveRebalance(int24,int24,uint128)"](-600, 600, 0);
+
+            // The feeds disagree with the pool price
+            await feed0.setAnswer(200000000);
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                ["executiveRebalance(int24,int24,uint128)"](-1200, 1200, 0)
+            ).to.be.revertedWith("high slippage");
+
+            // Stale feeds fall back to the pool TWAP
+            await helpers.time.increase(3601);
+            await grizzlyVault
+              .connect(manager)
+              ["executiveRebalance(int24,int24,uint128)"](-1200, 1200, 0);
+          });
+
+          it("Should check the pool price against a direct feed", async () => {
+            // Price of token0 in token1
+            await grizzlyVault
+              .connect(manager)
+              .setPriceFeeds(feed0.address, ethers.constants.AddressZero, 3600);
+
+            await grizzlyVault
+              .connect(manager)
+              ["executiveRebalance(int24,int24,uint128)"](-600, 600, 0);
+
+            await feed0.setAnswer(50000000);
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                ["executiveRebalance(int24,int24,uint128)"](-1200, 1200, 0)
+            ).to.be.revertedWith("high slippage");
+
+            // Broken answers fall back to the pool TWAP
+            await feed0.setAnswer(0);
+            await grizzlyVault
+              .connect(manager)
+              ["executiveRebalance(int24,int24,uint128)"](-1200, 1200, 0);
+          });
+        });
+
+        describe("Circuit breaker", () => {
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("100"),
+              ethers.utils.parseEther("100")
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            // We first make the evm go some seconds forward
+            await helpers.time.increase(300);
+          });
+
+          it("Should revert if not manager or wrong parameters", async () => {
+            await expect(
+              grizzlyVault.connect(user).setShareValueDeviation(10000)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+
+            await expect(
+              grizzlyVault.connect(user).resetCircuitBreaker()
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+
+            await expect(
+              grizzlyVault.connect(manager).setShareValueDeviation(1000000)
+            ).to.be.revertedWith("deviation too high");
+          });
+
+          it("Should not trip on price moves", async () => {
+            await expect(
+              grizzlyVault.connect(manager).setShareValueDeviation(10000)
+            )
+              .to.emit(grizzlyVault, "SetShareValueDeviation")
+              .withArgs(10000);
+
+            // The reference is recorded
+            expect((await grizzlyVault.circuitBreaker()).value).to.be.gt(0);
+
+            // We move the price of the pool, the full range position keeps its share value
+            await swapTest.swap(
+              uniswapPool.address,
+              true,
+              ethers.utils.parseEther("10"),
+              100000
+            );
+            expect(
+              await grizzlyVault.callStatic.checkCircuitBreaker()
+            ).to.be.eq(false);
+
+            await swapTest.swap(
+              uniswapPool.address,
+              false,
+              ethers.utils.parseEther("10"),
+              100000
+            );
+            expect(
+              await grizzlyVault.callStatic.checkCircuitBreaker()
+            ).to.be.eq(false);
+          });
+
+          it("Should block mints until reset", async () => {
+            await grizzlyVault.connect(manager).setShareValueDeviation(10000);
+
+            // A donation moves the share value
+            await token0.transfer(
+              grizzlyVault.address,
+              ethers.utils.parseEther("10")
+            );
+
+            // Mints revert while the share value deviates
+            await token0.approve(
+              grizzlyVault.address,
+              ethers.utils.parseEther("10")
+            );
+            await token1.approve(
+              grizzlyVault.address,
+              ethers.utils.parseEther("10")
+            );
+            await expect(
+              grizzlyVault.mint(
+                ethers.utils.parseEther("1"),
+                deployerGrizzly.address
+              )
+            ).to.be.revertedWith("circuit breaker");
+            await expect(
+              grizzlyVault.mintWithToken(
+                0,
+                ethers.utils.parseEther("1"),
+                0,
+                deployerGrizzly.address
+              )
+            ).to.be.revertedWith("circuit breaker");
+            expect((await grizzlyVault.circuitBreaker()).tripped).to.be.eq(
+              false
+            );
+
+            // Anyone can trip it
+            await expect(
+              grizzlyVault.connect(user).checkCircuitBreaker()
+            ).to.emit(grizzlyVault, "CircuitBreakerTripped");
+            expect((await grizzlyVault.circuitBreaker()).tripped).to.be.eq(
+              true
+            );
+            await expect(
+              grizzlyVault.connect(user).checkCircuitBreaker()
+            ).to.be.revertedWith("circuit breaker");
+
+            // The reset records the new share value, until then mints are blocked
+            await expect(
+              grizzlyVault.connect(manager).resetCircuitBreaker()
+            ).to.emit(grizzlyVault, "CircuitBreakerReset");
+            expect((await grizzlyVault.circuitBreaker()).tripped).to.be.eq(
+              false
+            );
+
+            const amounts = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("1"),
+              ethers.utils.parseEther("1")
+            );
+            await token0.approve(grizzlyVault.address, amounts.amount0);
+            await token1.approve(grizzlyVault.address, amounts.amount1);
+            await grizzlyVault.mint(
+              amounts.mintAmount,
+              deployerGrizzly.address
+            );
+          });
+
+          it("Should block mints once tripped", async () => {
+            await grizzlyVault.connect(manager).setShareValueDeviation(10000);
+            const reference = (await grizzlyVault.circuitBreaker()).value;
+
+            await token0.transfer(
+              grizzlyVault.address,
+              ethers.utils.parseEther("10")
+            );
+            await grizzlyVault.connect(user).checkCircuitBreaker();
+
+            // The new reference is the current share value, which no longer deviates
+            await grizzlyVault.connect(manager).setShareValueDeviation(10000);
+            expect((await grizzlyVault.circuitBreaker()).value).to.be.gt(
+              reference
+            );
+
+            await token0.approve(
+              grizzlyVault.address,
+              ethers.utils.parseEther("10")
+            );
+            await token1.approve(
+              grizzlyVault.address,
+              ethers.utils.parseEther("10")
+            );
+            await expect(
+              grizzlyVault.mint(
+                ethers.utils.parseEther("1"),
+                deployerGrizzly.address
+              )
+            ).to.be.revertedWith("circuit breaker");
+          });
+
+          it("Should block rebalances while deviated", async () => {
+            await grizzlyVault.connect(manager).setShareValueDeviation(10000);
+            await grizzlyVault.connect(manager).setKeeperAddress(bot.address);
+
+            await token0.transfer(
+              grizzlyVault.address,
+              ethers.utils.parseEther("10")
+            );
+
+            await expect(
+              grizzlyVault
+                .connect(manager)
+                ["executiveRebalance(int24,int24,uint128)"](-600, 600, 0)
+            ).to.be.revertedWith("circuit breaker");
+            await expect(
+              grizzlyVault.connect(bot).rebalance()
+            ).to.be.revertedWith("circuit breaker");
+
+            // Rebalances do not trip it
+            expect((await grizzlyVault.circuitBreaker()).tripped).to.be.eq(
+              false
+            );
+          });
+        });
+      });
+
+      describe("External authorized functions", () => {
+        describe("Rebalance", () => {
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amount0MaxDep = ethers.utils.parseEther("100");
+            const amount1MaxDep = ethers.utils.parseEther("100");
+
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              amount0MaxDep,
+              amount1MaxDep
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            // We give bot manager authorization
+            await grizzlyVault.connect(manager).setKeeperAddress(bot.address);
+
+            // We first make the evm go some seconds forward
+            await helpers.time.increase(300);
+          });
+          it("Should revert if not authorized", async () => {
+            // run rebalance as deployer
+            await expect(grizzlyVault.rebalance()).to.be.revertedWith(
+              "not authorized"
+            );
+
+            // run rebalance as user
+            await expect(
+              grizzlyVault.connect(user).rebalance()
+            ).to.be.revertedWith("not authorized");
+          });
+
+          it("Should revert when slippage is high", async () => {
+            // We make some swaps to produce slippage
+            await swapTest.washTrade(
+              uniswapPool.address,
+              ethers.utils.parseEther("10"),
+              50000,
+              10,
+              0
+            );
+
+            await expect(
+              grizzlyVault.connect(manager).rebalance()
+            ).to.be.revertedWith("high slippage");
+          });
+          it("Should revert if liquidity did not increase", async () => {
+            await expect(
+              grizzlyVault.connect(manager).rebalance()
+            ).to.be.revertedWith("liquidity must increase");
+          });
+          it("Should let bot and manager to rebalance", async () => {
+            // We make some swaps to generate fees
+            await swapTest.washTrade(
+              uniswapPool.address,
+              ethers.utils.parseEther("0.1"),
+              10000,
+              10,
+              2
+            );
+
+            // We read some values from the vault
+            const ticks = await grizzlyVault.baseTicks();
+            const id = await grizzlyVault.getPositionID();
+            const liquidity = (await uniswapPool.positions(id))._liquidity;
+
+            const tx = await grizzlyVault.connect(manager).rebalance();
+
+            // Check event emission
+            const receipt = await tx.wait();
+            const events = receipt.events?.filter((x) => {
+              return x.event == "Rebalance";
+            });
+            if (!events) {
+              throw new Error("No events when rebalance");
+            }
+
+            // Read new values
+            const newLiquidity = (await uniswapPool.positions(id))._liquidity;
+
+            // Check event parameters
+            const args = events[0].args;
+            if (!args) {
+              throw new Error("Event has no args");
+            }
+            expect(ticks.lowerTick).to.be.eq(args[0]);
+            expect(ticks.upperTick).to.be.eq(args[1]);
+            expect(liquidity).to.be.eq(args[2]);
+            expect(newLiquidity).to.be.eq(args[3]);
+
+            //Check change in liquidity
+            expect(newLiquidity).to.be.gt(liquidity);
+
+            // Bot can perform the same operation without reverting
+            await swapTest.washTrade(
+              uniswapPool.address,
+              ethers.utils.parseEther("0.1"),
+              10000,
+              10,
+              2
+            );
+
+            await grizzlyVault.connect(bot).rebalance();
+          });
+        });
+        describe("Keeper bounty", () => {
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amount0MaxDep = ethers.utils.parseEther("100");
+            const amount1MaxDep = ethers.utils.parseEther("100");
+
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              amount0MaxDep,
+              amount1MaxDep
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            await grizzlyVault.connect(manager).setKeeperAddress(bot.address);
+
+            // We first make the evm go some seconds forward
+            await helpers.time.increase(300);
+          });
+
+          it("Should revert if not manager", async () => {
+            await expect(
+              grizzlyVault.connect(user).setKeeperBounty(10000, 3600)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+          });
+
+          it("Should revert with wrong parameters", async () => {
+            await expect(
+              grizzlyVault.connect(manager).setKeeperBounty(100001, 3600)
+            ).to.be.revertedWith("bounty too high");
+          });
+
+          it("Should not pay a bounty by default", async () => {
+            await swapTest.washTrade(
+              uniswapPool.address,
+              ethers.utils.parseEther("0.1"),
+              10000,
+              10,
+              2
+            );
+
+            const balance0Before = await token0.balanceOf(bot.address);
+            const balance1Before = await token1.balanceOf(bot.address);
+
+            await grizzlyVault.connect(bot).rebalance();
+
+            expect(await token0.balanceOf(bot.address)).to.be.eq(
+              balance0Before
+            );
+            expect(await token1.balanceOf(bot.address)).to.be.eq(
+              balance1Before
+            );
+
+            // Anyone can not rebalance
+            await expect(
+              grizzlyVault.connect(user).rebalance()
+            ).to.be.revertedWith("not authorized");
+          });
+
+          it("Should pay the bounty to the keeper", async () => {
+            await expect(
+              grizzlyVault.connect(manager).setKeeperBounty(100000, 0)
+            )
+              .to.emit(grizzlyVault, "SetKeeperBounty")
+              .withArgs(100000, 0);
+
+            await swapTest.washTrade(
+              uniswapPool.address,
+              ethers.utils.parseEther("0.1"),
+              10000,
+              10,
+              2
+            );
+
+            const balance0Before = await token0.balanceOf(bot.address);
+            const balance1Before = await token1.balanceOf(bot.address);
+
+            const tx = await grizzlyVault.connect(bot).rebalance();
+            const receipt = await tx.wait();
+            const event = receipt.events?.find((x) => x.event == "FeesEarned");
+            if (!event || !event.args) {
+              throw new Error("No FeesEarned event when rebalance");
+            }
+            const bounty0 = event.args.bounty0;
+            const bounty1 = event.args.bounty1;
+
+            expect(bounty0.add(bounty1)).to.be.gt(0);
+            expect(await token0.balanceOf(bot.address)).to.be.eq(
+              balance0Before.add(bounty0)
+            );
+            expect(await token1.balanceOf(bot.address)).to.be.eq(
+              balance1Before.add(bounty1)
+            );
+          });
+
+          it("Should let anyone rebalance after the interval", async () => {
+            await grizzlyVault.connect(manager).setKeeperBounty(100000, 3600);
+
+            await swapTest.washTrade(
+              uniswapPool.address,
+              ethers.utils.parseEther("0.1"),
+              10000,
+              10,
+              2
+            );
+            await grizzlyVault.connect(bot).rebalance();
+
+            await swapTest.washTrade(
+              uniswapPool.address,
+              ethers.utils.parseEther("0.1"),
+              10000,
+              10,
+              2
+            );
+            await expect(
+              grizzlyVault.connect(user).rebalance()
+            ).to.be.revertedWith("not authorized");
+
+            await helpers.time.increase(3600);
+
+            const balance0Before = await token0.balanceOf(user.address);
+            const balance1Before = await token1.balanceOf(user.address);
+
+            await grizzlyVault.connect(user).rebalance();
+
+            const balance0After = await token0.balanceOf(user.address);
+            const balance1After = await token1.balanceOf(user.address);
+            expect(
+              balance0After
+                .sub(balance0Before)
+                .add(balance1After)
+                .sub(balance1Before)
+            ).to.be.gt(0);
+            expect(await grizzlyVault.lastRebalance()).to.be.eq(
+              await helpers.time.latest()
+            );
+          });
+        });
+        describe("Compound", () => {
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amount0MaxDep = ethers.utils.parseEther("100");
+            const amount1MaxDep = ethers.utils.parseEther("100");
+
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              amount0MaxDep,
+              amount1MaxDep
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            // We first make the evm go some seconds forward
+            await helpers.time.increase(300);
+          });
+
+          it("Should revert if not manager", async () => {
+            await expect(
+              grizzlyVault.connect(user).setCompoundParams(3600, 0, 0)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
+          });
+
+          it("Should revert when disabled", async () => {
+            await swapTest.washTrade(
+              uniswapPool.address,
+              ethers.utils.parseEther("0.1"),
+              10000,
+              10,
+              2
+            );
+
+            await expect(
+              grizzlyVault.connect(user).compound()
+            ).to.be.revertedWith("compound cooldown");
+          });
+
+          it("Should revert when fees are below threshold", async () => {
+            const threshold = ethers.utils.parseEther("1000");
+            await grizzlyVault
+              .connect(manager)
+              .setCompoundParams(3600, threshold, threshold);
+
+            await swapTest.washTrade(
+              uniswapPool.address,
+              ethers.utils.parseEther("0.1"),
+              10000,
+              10,
+              2
+            );
+
+            await expect(
+              grizzlyVault.connect(user).compound()
+            ).to.be.revertedWith("fees below threshold");
+          });
+
+          it("Should let anyone compound after the interval", async () => {
+            await expect(
+              grizzlyVault.connect(manager).setCompoundParams(3600, 0, 0)
+            )
+              .to.emit(grizzlyVault, "SetCompoundParams")
+              .withArgs(3600, 0, 0);
+
+            await swapTest.washTrade(
+              uniswapPool.address,
+              ethers.utils.parseEther("0.1"),
+              10000,
+              10,
+              2
+            );
+
+            const id = await grizzlyVault.getPositionID();
+            const liquidity = (await uniswapPool.positions(id))._liquidity;
+
+            await expect(grizzlyVault.connect(user).compound()).to.emit(
+              grizzlyVault,
+              "Rebalance"
+            );
+
+            const newLiquidity = (await uniswapPool.positions(id))._liquidity;
+            expect(newLiquidity).to.be.gt(liquidity);
 
-            // Check the parameters correctly changed
-            const slippageUser = await grizzlyVault.slippageUserMax();
-            const slippageRebalance = await grizzlyVault.slippageRebalanceMax();
+            // Compound is on cooldown until the interval passed again
+            await swapTest.washTrade(
+              uniswapPool.address,
+              ethers.utils.parseEther("0.1"),
+              10000,
+              10,
+              2
+            );
+            await expect(
+              grizzlyVault.connect(user).compound()
+            ).to.be.revertedWith("compound cooldown");
 
-            expect(slippageRebalance).to.be.eq(slippageRebalanceMax);
-            expect(slippageUser).to.be.eq(slippageUserMax);
+            await helpers.time.increase(3600);
+            await grizzlyVault.connect(user).compound();
           });
         });
-
-        describe("Executive rebalance", () => {
+        describe("Recenter", () => {
           beforeEach(async () => {
             // Deployer loads the pool with some tokens
             const amount0MaxDep = ethers.utils.parseEther("100");
@@ -1207,117 +4173,82 @@ describe("Grizzly Vault Contracts", () => {
               deployerGrizzly.address
             );
 
-            // We give bot manager authorization
             await grizzlyVault.connect(manager).setKeeperAddress(bot.address);
 
             // We first make the evm go some seconds forward
             await helpers.time.increase(300);
           });
-          it("Should revert if not manager", async () => {
-            // run as deployer
-            await expect(
-              grizzlyVault.executiveRebalance(-887220, 887220, 3000)
-            ).to.be.revertedWith("Ownable: caller is not the manager");
 
-            // run as user
+          it("Should revert if not authorized", async () => {
             await expect(
-              grizzlyVault
-                .connect(user)
-                .executiveRebalance(-887220, 887220, 3000)
+              grizzlyVault.connect(user).setRecenterParams(10, 0, 3600)
             ).to.be.revertedWith("Ownable: caller is not the manager");
 
-            // run as bot
             await expect(
-              grizzlyVault
-                .connect(bot)
-                .executiveRebalance(-887220, 887220, 3000)
-            ).to.be.revertedWith("Ownable: caller is not the manager");
+              grizzlyVault.connect(user).recenter()
+            ).to.be.revertedWith("not authorized");
           });
 
           it("Should revert with wrong parameters", async () => {
-            const id = await grizzlyVault.getPositionID();
-            const liquidity = (await uniswapPool.positions(id))._liquidity;
-
             await expect(
-              grizzlyVault
-                .connect(manager)
-                .executiveRebalance(-30, 30, liquidity)
-            ).to.be.revertedWith("tickSpacing mismatch");
+              grizzlyVault.connect(manager).setRecenterParams(-1, 0, 3600)
+            ).to.be.revertedWith("wrong recenter params");
 
             await expect(
-              grizzlyVault
-                .connect(manager)
-                .executiveRebalance(-60, 60, liquidity.mul(1000))
-            ).to.be.revertedWith("min liquidity");
+              grizzlyVault.connect(manager).setRecenterParams(10, -1, 3600)
+            ).to.be.revertedWith("wrong recenter params");
           });
 
-          it("Should revert when slippage is high", async () => {
-            // We make some swaps to produce slippage
-            await swapTest.washTrade(
-              uniswapPool.address,
-              ethers.utils.parseEther("10"),
-              50000,
-              10,
-              0
-            );
-
-            const id = await grizzlyVault.getPositionID();
-            const liquidity = (await uniswapPool.positions(id))._liquidity;
-
+          it("Should revert when disabled", async () => {
             await expect(
-              grizzlyVault
-                .connect(manager)
-                .executiveRebalance(-60, 60, liquidity)
-            ).to.be.revertedWith("high slippage");
+              grizzlyVault.connect(bot).recenter()
+            ).to.be.revertedWith("recenter disabled");
           });
 
-          it("Should correctly do an executive rebalance", async () => {
-            // We check the tick spacing
-            const tickSpacing = await uniswapPool.tickSpacing();
+          it("Should revert when the TWAP is close to the range center", async () => {
+            await grizzlyVault
+              .connect(manager)
+              .setRecenterParams(10, 600, 3600);
 
-            // We read some values from the vault
-            let id = await grizzlyVault.getPositionID();
-            const liquidity = (await uniswapPool.positions(id))._liquidity;
+            await expect(
+              grizzlyVault.connect(bot).recenter()
+            ).to.be.revertedWith("no recenter needed");
+          });
 
-            // We perform a rebalance on a tight interval
-            const tx = await grizzlyVault
-              .connect(manager)
-              .executiveRebalance(-2 * tickSpacing, 2 * tickSpacing, liquidity);
+          it("Should recenter the position around the TWAP", async () => {
+            await expect(
+              grizzlyVault.connect(manager).setRecenterParams(10, 0, 3600)
+            )
+              .to.emit(grizzlyVault, "SetRecenterParams")
+              .withArgs(10, 0, 3600);
 
-            // Check event emission
-            const receipt = await tx.wait();
-            const events = receipt.events?.filter((x) => {
-              return x.event == "Rebalance";
-            });
-            if (!events) {
-              throw new Error("No events when rebalance");
-            }
+            await expect(grizzlyVault.connect(bot).recenter()).to.emit(
+              grizzlyVault,
+              "Rebalance"
+            );
 
-            // Read new values from the vault
+            // New range of 10 tick spacings around the current tick
             const ticks = await grizzlyVault.baseTicks();
-            id = await grizzlyVault.getPositionID();
-            const newLiquidity = (await uniswapPool.positions(id))._liquidity;
+            const tick = (await uniswapPool.slot0()).tick;
+            expect(ticks.upperTick - ticks.lowerTick).to.be.eq(600);
+            expect(ticks.lowerTick % 60).to.be.eq(0);
+            expect(ticks.lowerTick).to.be.lte(tick);
+            expect(ticks.upperTick).to.be.gt(tick);
 
-            // Check event parameters
-            const args = events[0].args;
-            if (!args) {
-              throw new Error("Event has no args");
-            }
-            expect(ticks.lowerTick).to.be.eq(args[0]);
-            expect(ticks.upperTick).to.be.eq(args[1]);
-            expect(liquidity).to.be.eq(args[2]);
-            expect(newLiquidity).to.be.eq(args[3]);
+            const id = await grizzlyVault.getPositionID();
+            const liquidity = (await uniswapPool.positions(id))._liquidity;
+            expect(liquidity).to.be.gt(0);
 
-            //Check change in liquidity and ticks
-            expect(newLiquidity).to.be.gt(liquidity);
-            expect(ticks.lowerTick).to.be.eq(-2 * tickSpacing);
-            expect(ticks.upperTick).to.be.eq(2 * tickSpacing);
+            // Recenter is on cooldown until the interval passed
+            await expect(
+              grizzlyVault.connect(bot).recenter()
+            ).to.be.revertedWith("recenter cooldown");
+
+            await helpers.time.increase(3600);
+            await grizzlyVault.connect(bot).recenter();
           });
         });
-      });
-
-      describe("External authorized functions", () => {
-        describe("Rebalance", () => {
+        describe("Strategy rebalance", () => {
           beforeEach(async () => {
             // Deployer loads the pool with some tokens
             const amount0MaxDep = ethers.utils.parseEther("100");
@@ -1336,95 +4267,121 @@ describe("Grizzly Vault Contracts", () => {
               deployerGrizzly.address
             );
 
-            // We give bot manager authorization
             await grizzlyVault.connect(manager).setKeeperAddress(bot.address);
 
             // We first make the evm go some seconds forward
-            await helpers.time.increase(300);
+            await helpers.time.increase(900);
           });
+
           it("Should revert if not authorized", async () => {
-            // run rebalance as deployer
-            await expect(grizzlyVault.rebalance()).to.be.revertedWith(
-              "not authorized"
-            );
+            await expect(
+              grizzlyVault.connect(user).setStrategy(user.address)
+            ).to.be.revertedWith("Ownable: caller is not the manager");
 
-            // run rebalance as user
             await expect(
-              grizzlyVault.connect(user).rebalance()
+              grizzlyVault.connect(user).strategyRebalance()
             ).to.be.revertedWith("not authorized");
           });
 
-          it("Should revert when slippage is high", async () => {
-            // We make some swaps to produce slippage
-            await swapTest.washTrade(
-              uniswapPool.address,
-              ethers.utils.parseEther("10"),
-              50000,
-              10,
-              0
-            );
-
+          it("Should revert without strategy", async () => {
             await expect(
-              grizzlyVault.connect(manager).rebalance()
-            ).to.be.revertedWith("high slippage");
+              grizzlyVault.connect(bot).strategyRebalance()
+            ).to.be.revertedWith("no strategy");
           });
-          it("Should revert if liquidity did not increase", async () => {
+
+          it("Should rebalance to a fixed width around the TWAP", async () => {
+            const strategyFactory = await ethers.getContractFactory(
+              "FixedWidthStrategy",
+              deployerGrizzly
+            );
+            const strategy = await strategyFactory.deploy(10, 5000);
+
             await expect(
-              grizzlyVault.connect(manager).rebalance()
-            ).to.be.revertedWith("liquidity must increase");
-          });
-          it("Should let bot and manager to rebalance", async () => {
-            // We make some swaps to generate fees
-            await swapTest.washTrade(
-              uniswapPool.address,
-              ethers.utils.parseEther("0.1"),
-              10000,
-              10,
-              2
+              grizzlyVault.connect(manager).setStrategy(strategy.address)
+            )
+              .to.emit(grizzlyVault, "SetStrategy")
+              .withArgs(strategy.address);
+
+            await expect(grizzlyVault.connect(bot).strategyRebalance()).to.emit(
+              grizzlyVault,
+              "Rebalance"
             );
 
-            // We read some values from the vault
+            // New range of 10 tick spacings around the current tick
             const ticks = await grizzlyVault.baseTicks();
+            const tick = (await uniswapPool.slot0()).tick;
+            expect(ticks.upperTick - ticks.lowerTick).to.be.eq(600);
+            expect(ticks.lowerTick % 60).to.be.eq(0);
+            expect(ticks.lowerTick).to.be.lte(tick);
+            expect(ticks.upperTick).to.be.gt(tick);
+
             const id = await grizzlyVault.getPositionID();
             const liquidity = (await uniswapPool.positions(id))._liquidity;
+            expect(liquidity).to.be.gt(0);
 
-            const tx = await grizzlyVault.connect(manager).rebalance();
+            // Range did not move since the last strategy rebalance
+            await expect(
+              grizzlyVault.connect(bot).strategyRebalance()
+            ).to.be.revertedWith("no strategy rebalance");
+          });
 
-            // Check event emission
-            const receipt = await tx.wait();
-            const events = receipt.events?.filter((x) => {
-              return x.event == "Rebalance";
-            });
-            if (!events) {
-              throw new Error("No events when rebalance");
-            }
+          it("Should use slippageRebalanceMax for a zero swap slippage", async () => {
+            const strategyFactory = await ethers.getContractFactory(
+              "FixedWidthStrategy",
+              deployerGrizzly
+            );
+            const strategy = await strategyFactory.deploy(10, 0);
 
-            // Read new values
-            const newLiquidity = (await uniswapPool.positions(id))._liquidity;
+            await grizzlyVault.connect(manager).setStrategy(strategy.address);
 
-            // Check event parameters
-            const args = events[0].args;
-            if (!args) {
-              throw new Error("Event has no args");
-            }
-            expect(ticks.lowerTick).to.be.eq(args[0]);
-            expect(ticks.upperTick).to.be.eq(args[1]);
-            expect(liquidity).to.be.eq(args[2]);
-            expect(newLiquidity).to.be.eq(args[3]);
+            await expect(grizzlyVault.connect(bot).strategyRebalance()).to.emit(
+              grizzlyVault,
+              "Rebalance"
+            );
+          });
 
-            //Check change in liquidity
-            expect(newLiquidity).to.be.gt(liquidity);
+          it("Should rebalance to a volatility scaled width", async () => {
+            const strategyFactory = await ethers.getContractFactory(
+              "VolatilityScaledStrategy",
+              deployerGrizzly
+            );
+            await expect(
+              strategyFactory.deploy(10, 4, 600, 2, 5000)
+            ).to.be.revertedWith("wrong width");
+            await expect(
+              strategyFactory.deploy(4, 20, 600, 101, 5000)
+            ).to.be.revertedWith("wrong volatility params");
+
+            // Large distances are capped by the maximum width without overflowing
+            const maxStrategy = await strategyFactory.deploy(
+              4,
+              20,
+              600,
+              100,
+              5000
+            );
+            expect(
+              await maxStrategy.getWidth(uniswapPool.address, 800000)
+            ).to.be.eq(20);
 
-            // Bot can perform the same operation without reverting
-            await swapTest.washTrade(
-              uniswapPool.address,
-              ethers.utils.parseEther("0.1"),
-              10000,
-              10,
-              2
+            const strategy = await strategyFactory.deploy(4, 20, 600, 2, 5000);
+
+            await grizzlyVault.connect(manager).setStrategy(strategy.address);
+
+            // Without price moves the width is the minimum one
+            expect(await strategy.getWidth(uniswapPool.address, 0)).to.be.eq(4);
+            expect(await strategy.getWidth(uniswapPool.address, 120)).to.be.eq(
+              8
+            );
+            expect(await strategy.getWidth(uniswapPool.address, 6000)).to.be.eq(
+              20
             );
 
-            await grizzlyVault.connect(bot).rebalance();
+            await grizzlyVault.connect(bot).strategyRebalance();
+
+            const ticks = await grizzlyVault.baseTicks();
+            expect(ticks.upperTick - ticks.lowerTick).to.be.eq(240);
+            expect(ticks.lowerTick % 60).to.be.eq(0);
           });
         });
         describe("Withdraw manager balance", () => {
@@ -1490,8 +4447,11 @@ describe("Grizzly Vault Contracts", () => {
           });
 
           it("Should get 0 manager fees with no burns or rebalances", async () => {
-            // Increase manager fee to 50%
-            await grizzlyVault.connect(manager).setManagerFee(500000);
+            // Increase manager fee to 20%
+            await grizzlyVault.connect(manager).setManagerFee(200000);
+            // Fee increases are applied after the notice period
+            await helpers.time.increase(3 * 24 * 3600);
+            await grizzlyVault.applyManagerFee();
 
             // We check manager balances before
             const balance0Before = await token0.balanceOf(manager.address);
@@ -1509,8 +4469,11 @@ describe("Grizzly Vault Contracts", () => {
           });
 
           it("Should get some manager fees after burn", async () => {
-            // Increase manager fee to 50%
-            await grizzlyVault.connect(manager).setManagerFee(500000);
+            // Increase manager fee to 20%
+            await grizzlyVault.connect(manager).setManagerFee(200000);
+            // Fee increases are applied after the notice period
+            await helpers.time.increase(3 * 24 * 3600);
+            await grizzlyVault.applyManagerFee();
 
             // We burn some liquidity to apply fees to
             const balanceLP = await grizzlyVault.balanceOf(
@@ -1540,8 +4503,11 @@ describe("Grizzly Vault Contracts", () => {
           });
 
           it("Should get some manager fees after rebalance", async () => {
-            // Increase manager fee to 50%
-            await grizzlyVault.connect(manager).setManagerFee(500000);
+            // Increase manager fee to 20%
+            await grizzlyVault.connect(manager).setManagerFee(200000);
+            // Fee increases are applied after the notice period
+            await helpers.time.increase(3 * 24 * 3600);
+            await grizzlyVault.applyManagerFee();
 
             // We rebalance to apply fees
             await grizzlyVault.connect(manager).rebalance();
@@ -1578,6 +4544,92 @@ describe("Grizzly Vault Contracts", () => {
             expect(balance1AfterAfter).to.be.gt(balance1After);
           });
         });
+
+        describe("Withdraw protocol balance", () => {
+          beforeEach(async () => {
+            // Deployer loads the pool with some tokens
+            const amount0MaxDep = ethers.utils.parseEther("100");
+            const amount1MaxDep = ethers.utils.parseEther("100");
+
+            const amountsDep = await grizzlyVault.getMintAmounts(
+              amount0MaxDep,
+              amount1MaxDep
+            );
+
+            await token0.approve(grizzlyVault.address, amountsDep.amount0);
+            await token1.approve(grizzlyVault.address, amountsDep.amount1);
+
+            await grizzlyVault.mint(
+              amountsDep.mintAmount,
+              deployerGrizzly.address
+            );
+
+            // Manager takes 20% of the fees and protocol 20% of the manager cut
+            await grizzlyVault.connect(manager).setManagerFee(200000);
+            // Fee increases are applied after the notice period
+            await helpers.time.increase(3 * 24 * 3600);
+            await grizzlyVault.applyManagerFee();
+            await grizzlyFactory.setProtocolFee(200000);
+            await grizzlyFactory.setProtocolTreasury(user.address);
+
+            // We first make the evm go some seconds forward
+            await helpers.time.increase(300);
+
+            // We make some swaps too generate fees
+            await swapTest.washTrade(
+              uniswapPool.address,
+              ethers.utils.parseEther("0.1"),
+              10000,
+              100,
+              2
+            );
+          });
+
+          it("Should split the fee cut between manager and protocol", async () => {
+            // We rebalance to apply fees
+            await grizzlyVault.connect(manager).rebalance();
+
+            const managerBalance0 = await grizzlyVault.managerBalance0();
+            const managerBalance1 = await grizzlyVault.managerBalance1();
+            const protocolBalance0 = await grizzlyVault.protocolBalance0();
+            const protocolBalance1 = await grizzlyVault.protocolBalance1();
+
+            // Protocol gets 20% of the fee cut, manager the remaining 80%
+            expect(protocolBalance0).to.be.gt(0);
+            expect(protocolBalance1).to.be.gt(0);
+            expect(protocolBalance0.mul(4)).to.be.closeTo(managerBalance0, 4);
+            expect(protocolBalance1.mul(4)).to.be.closeTo(managerBalance1, 4);
+          });
+
+          it("Should withdraw protocol fees to the protocol treasury", async () => {
+            // We rebalance to apply fees
+            await grizzlyVault.connect(manager).rebalance();
+
+            const protocolBalance0 = await grizzlyVault.protocolBalance0();
+            const protocolBalance1 = await grizzlyVault.protocolBalance1();
+
+            const balance0Before = await token0.balanceOf(user.address);
+            const balance1Before = await token1.balanceOf(user.address);
+
+            // Anyone can withdraw, fees go to the treasury of the factory
+            await expect(grizzlyVault.connect(bot).withdrawProtocolBalance())
+              .to.emit(grizzlyVault, "ProtocolBalanceWithdrawn")
+              .withArgs(user.address, protocolBalance0, protocolBalance1);
+
+            expect(await token0.balanceOf(user.address)).to.be.eq(
+              balance0Before.add(protocolBalance0)
+            );
+            expect(await token1.balanceOf(user.address)).to.be.eq(
+              balance1Before.add(protocolBalance1)
+            );
+            expect(await grizzlyVault.protocolBalance0()).to.be.eq(0);
+            expect(await grizzlyVault.protocolBalance1()).to.be.eq(0);
+
+            // Manager balances are not affected
+            expect(await grizzlyVault.managerBalance0()).to.be.gt(0);
+            expect(await grizzlyVault.managerBalance1()).to.be.gt(0);
+          });
+        });
       });
     });
   });
@@ -2756,29 +5808,37 @@ describe("Grizzly Vault Contracts", () => {
                 // We first make the evm go some seconds forward
                 await helpers.time.increase(300);
               });
-              it("Should revert if not manager", async () => {
+              it("Should revert if not manager or strategist", async () => {
                 // run as deployer
                 await expect(
-                  grizzlyVault.executiveRebalance(
+                  grizzlyVault["executiveRebalance(int24,int24,uint128)"](
                     -tickSpacing,
                     tickSpacing,
                     3000
                   )
-                ).to.be.revertedWith("Ownable: caller is not the manager");
+                ).to.be.revertedWith("not authorized");
 
                 // run as user
                 await expect(
                   grizzlyVault
                     .connect(user)
-                    .executiveRebalance(-tickSpacing, tickSpacing, 3000)
-                ).to.be.revertedWith("Ownable: caller is not the manager");
+                    ["executiveRebalance(int24,int24,uint128)"](
+                      -tickSpacing,
+                      tickSpacing,
+                      3000
+                    )
+                ).to.be.revertedWith("not authorized");
 
                 // run as not yet apoproved bot
                 await expect(
                   grizzlyVault
                     .connect(bot)
-                    .executiveRebalance(-tickSpacing, tickSpacing, 3000)
-                ).to.be.revertedWith("Ownable: caller is not the manager");
+                    ["executiveRebalance(int24,int24,uint128)"](
+                      -tickSpacing,
+                      tickSpacing,
+                      3000
+                    )
+                ).to.be.revertedWith("not authorized");
               });
 
               it("Should revert with wrong parameters", async () => {
@@ -2788,7 +5848,7 @@ describe("Grizzly Vault Contracts", () => {
                 await expect(
                   grizzlyVault
                     .connect(manager)
-                    .executiveRebalance(
+                    ["executiveRebalance(int24,int24,uint128)"](
                       -1 * tickSpacing,
                       tickSpacing + 1,
                       liquidity
@@ -2798,7 +5858,7 @@ describe("Grizzly Vault Contracts", () => {
                 await expect(
                   grizzlyVault
                     .connect(manager)
-                    .executiveRebalance(
+                    ["executiveRebalance(int24,int24,uint128)"](
                       -2 * tickSpacing,
                       2 * tickSpacing,
                       liquidity.mul("10000000000")
@@ -2814,7 +5874,7 @@ describe("Grizzly Vault Contracts", () => {
                 // We perform a rebalance on a tight interval
                 const tx = await grizzlyVault
                   .connect(manager)
-                  .executiveRebalance(
+                  ["executiveRebalance(int24,int24,uint128)"](
                     -2 * tickSpacing,
                     2 * tickSpacing,
                     liquidity
@@ -3039,8 +6099,11 @@ describe("Grizzly Vault Contracts", () => {
               });
 
               it("Should get 0 manager fees with no burns or rebalances", async () => {
-                // Increase manager fee to 50%
-                await grizzlyVault.connect(manager).setManagerFee(500000);
+                // Increase manager fee to 20%
+                await grizzlyVault.connect(manager).setManagerFee(200000);
+                // Fee increases are applied after the notice period
+                await helpers.time.increase(3 * 24 * 3600);
+                await grizzlyVault.applyManagerFee();
 
                 // We check manager balances before
                 const balance0Before = await token0.balanceOf(manager.address);
@@ -3058,8 +6121,11 @@ describe("Grizzly Vault Contracts", () => {
               });
 
               it("Should get some manager fees after burn", async () => {
-                // Increase manager fee to 50%
-                await grizzlyVault.connect(manager).setManagerFee(500000);
+                // Increase manager fee to 20%
+                await grizzlyVault.connect(manager).setManagerFee(200000);
+                // Fee increases are applied after the notice period
+                await helpers.time.increase(3 * 24 * 3600);
+                await grizzlyVault.applyManagerFee();
 
                 // We burn some liquidity to apply fees to
                 const balanceLP = await grizzlyVault.balanceOf(
@@ -3089,8 +6155,11 @@ describe("Grizzly Vault Contracts", () => {
               });
 
               it("Should get some manager fees after rebalance", async () => {
-                // Increase manager fee to 50%
-                await grizzlyVault.connect(manager).setManagerFee(500000);
+                // Increase manager fee to 20%
+                await grizzlyVault.connect(manager).setManagerFee(200000);
+                // Fee increases are applied after the notice period
+                await helpers.time.increase(3 * 24 * 3600);
+                await grizzlyVault.applyManagerFee();
 
                 // We rebalance to apply fees
                 await grizzlyVault.connect(manager).rebalance();
@@ -13,7 +13,7 @@ import {
   ZapContract,
   ERC20Upgradeable,
 } from "../typechain";
-import { pools } from "./data/pools";
+import { pools, WETH } from "./data/pools";
 
 // eslint-disable-next-line @typescript-eslint/naming-convention
 bn.config({ EXPONENTIAL_AT: 999999, DECIMAL_PLACES: 40 });
@@ -156,6 +156,26 @@ describe("ZapContract", () => {
           ).to.be.revertedWith("max slippage too high");
         });
 
+        it("Should revert ZapIn when vault is paused", async () => {
+          const amount0Desired = ethers.utils.parseEther("1");
+          const amount1Desired = ethers.utils.parseEther("0");
+          const maxSwapSlippage = BigNumber.from(10); // 0.1%
+
+          await grizzlyVault
+            .connect(await ethers.getSigner(manager))
+            .setPaused(true);
+
+          await expect(
+            zapContract.zapIn(
+              uniswapPoolAddress,
+              vaultAddress,
+              amount0Desired,
+              amount1Desired,
+              maxSwapSlippage
+            )
+          ).to.be.revertedWith("paused");
+        });
+
         it("Should revert ZapIn when token not approved", async () => {
           const amount0Desired = ethers.utils.parseEther("1");
           const amount1Desired = ethers.utils.parseEther("0");
@@ -893,4 +913,163 @@ describe("ZapContract", () => {
       });
     });
   });
+
+  describe("ZapContract with native ETH in mainnet WETH pools", () => {
+    pools
+      .filter((pool) => pool.token0 === WETH || pool.token1 === WETH)
+      .forEach((pool) => {
+        describe(`ETH zaps in ${pool.name} pool`, () => {
+          let otherToken: ERC20Upgradeable;
+          let isWeth0: boolean;
+
+          const emptyPermit = {
+            value: 0,
+            deadline: 0,
+            v: 0,
+            r: ethers.constants.HashZero,
+            s: ethers.constants.HashZero,
+          };
+
+          beforeEach(async () => {
+            uniswapPool = (await ethers.getContractAt(
+              "IUniswapV3Pool",
+              pool.address
+            )) as IUniswapV3Pool;
+
+            isWeth0 = pool.token0 === WETH;
+            otherToken = (await ethers.getContractAt(
+              "ERC20Upgradeable",
+              isWeth0 ? pool.token1 : pool.token0
+            )) as ERC20Upgradeable;
+
+            const slot0 = await uniswapPool.slot0();
+            const tickSpacing = await uniswapPool.tickSpacing();
+            const tick = slot0.tick - (slot0.tick % tickSpacing);
+
+            // We create a Grizzly vault
+            await grizzlyFactory.cloneGrizzlyVault(
+              pool.token0,
+              pool.token1,
+              await uniswapPool.fee(),
+              0,
+              tick - 100 * tickSpacing,
+              tick + 100 * tickSpacing,
+              manager
+            );
+
+            vaultAddress = (await grizzlyFactory.getVaults(deployerGrizzly))[0];
+
+            grizzlyVault = await ethers.getContractAt(
+              "GrizzlyVault",
+              vaultAddress
+            );
+
+            // We load the user account with the other token by impersonating a whale
+            const whale = isWeth0 ? pool.whale1 : pool.whale0;
+            await helpers.impersonateAccount(whale);
+            await otherToken
+              .connect(await ethers.getSigner(whale))
+              .transfer(
+                user.address,
+                ethers.utils.parseUnits("1000", await otherToken.decimals())
+              );
+          });
+
+          it("Should ZapIn with only ETH", async () => {
+            const ethBalanceBefore = await user.getBalance();
+
+            await expect(
+              zapContract.zapInETH(pool.address, vaultAddress, 0, 0, {
+                value: ethers.utils.parseEther("1"),
+              })
+            ).to.emit(zapContract, "ZapInVault");
+
+            expect(await grizzlyVault.balanceOf(user.address)).to.be.gt(0);
+            expect(await user.getBalance()).to.be.lt(ethBalanceBefore);
+            expect(
+              await ethers.provider.getBalance(zapContract.address)
+            ).to.be.eq(0);
+          });
+
+          it("Should revert mintETH when ETH sent is not enough", async () => {
+            const amounts = await grizzlyVault.getMintAmounts(
+              ethers.utils.parseEther("1"),
+              ethers.utils.parseEther("1")
+            );
+            const wethAmount = isWeth0 ? amounts.amount0 : amounts.amount1;
+
+            await expect(
+              zapContract.mintETH(
+                vaultAddress,
+                amounts.mintAmount,
+                user.address,
+                { value: wethAmount.div(2) }
+              )
+            ).to.be.revertedWith("not enough eth");
+          });
+
+          it("Should mintETH and refund the ETH not needed", async () => {
+            const ethAmount = ethers.utils.parseEther("1");
+            const otherAmount = await otherToken.balanceOf(user.address);
+
+            const amounts = isWeth0
+              ? await grizzlyVault.getMintAmounts(ethAmount, otherAmount)
+              : await grizzlyVault.getMintAmounts(otherAmount, ethAmount);
+
+            await otherToken
+              .connect(user)
+              .approve(zapContract.address, otherAmount);
+
+            await zapContract.mintETH(
+              vaultAddress,
+              amounts.mintAmount,
+              user.address,
+              { value: ethAmount.mul(2) }
+            );
+
+            expect(await grizzlyVault.balanceOf(user.address)).to.be.eq(
+              amounts.mintAmount
+            );
+            expect(
+              await otherToken.allowance(zapContract.address, vaultAddress)
+            ).to.be.eq(0);
+            expect(
+              await ethers.provider.getBalance(zapContract.address)
+            ).to.be.eq(0);
+            expect(
+              await (
+                await ethers.getContractAt("ERC20Upgradeable", WETH)
+              ).balanceOf(zapContract.address)
+            ).to.be.eq(0);
+          });
+
+          it("Should burnETH and receive ETH", async () => {
+            await zapContract.zapInETH(pool.address, vaultAddress, 0, 0, {
+              value: ethers.utils.parseEther("1"),
+            });
+            const shares = await grizzlyVault.balanceOf(user.address);
+
+            await grizzlyVault
+              .connect(user)
+              .approve(zapContract.address, shares);
+
+            const ethBalanceBefore = await user.getBalance();
+
+            await expect(
+              zapContract.burnETH(
+                vaultAddress,
+                shares,
+                0,
+                isWeth0 ? 0 : 1,
+                user.address,
+                emptyPermit
+              )
+            ).to.emit(zapContract, "ZapOutVault");
+
+            expect(await grizzlyVault.balanceOf(user.address)).to.be.eq(0);
+            expect(await user.getBalance()).to.be.gt(ethBalanceBefore);
+          });
+        });
+      });
+  });
 });
@@ -1,3 +1,5 @@
+export const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+
 export const pools = [
   {
     name: "USDC/WETH",